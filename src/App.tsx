@@ -3,27 +3,88 @@
  * Integrates UTCP Agent with Chat UI
  */
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Sidebar } from "@/components/sidebar/Sidebar";
 import { Chat } from "@/components/chat/Chat";
+import { AgentInspector } from "@/components/chat/AgentInspector";
 import { useChatStore } from "@/stores/chatStore";
+import { useConversationStore } from "@/stores/conversationStore";
 import { useLLMStore } from "@/stores/llmStore";
 import { useUtcpConfigStore } from "@/stores/utcpConfigStore";
 import { SimplifiedUtcpAgent } from "@/agent/SimplifiedUtcpAgent";
 import { createUtcpClientWithAutoVariables } from "@/utils/utcpClientHelper";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic, type AnthropicInput } from "@langchain/anthropic";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { createTokenCounter } from "@/utils/tokenCounter";
+import { getModelCapabilities } from "@/utils/modelCapabilities";
+import { isVaultLocked, startSecretVault } from "@/utils/secretVault";
+import { uiMessagesToLangChainMessages } from "@/utils/messageConverter";
+import { addActivityStep, finishActivity } from "@/utils/activityTimeline";
+import type { ToolCall } from "@/types/chat.types";
+import type { AgentActivity, AgentPlan, ToolApprovalDecision, ToolApprovalRequest, UserInputRequest } from "@/types/agent.types";
+import { useApprovalStore } from "@/stores/approvalStore";
+import { useAgentSettingsStore } from "@/stores/agentSettingsStore";
+import { exceedsBudget, formatCost, getConversationUsage, useUsageStore } from "@/stores/usageStore";
+import { createLLM, setProviderEnvironment } from "@/utils/llmFactory";
 import type { BaseLanguageModel } from "@langchain/core/language_models/base";
-import type { BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import type { BaseMessage } from "@langchain/core/messages";
+import { mapChatMessagesToStoredMessages, mapStoredMessagesToChatMessages } from "@langchain/core/messages";
+import { LLM_PROVIDERS, type LLMPhase, type LLMProvider, type LLMUsage } from "@/types/llm.types";
+
+/**
+ * Agent history of the open conversation: as saved after its last run, or
+ * rebuilt from the chat messages when no history was saved
+ */
+function getConversationHistory(): BaseMessage[] {
+  const { agentHistory } = useConversationStore.getState();
+  return agentHistory.length > 0
+    ? mapStoredMessagesToChatMessages(agentHistory)
+    : uiMessagesToLangChainMessages(useChatStore.getState().messages);
+}
 
 function App() {
   const [agent, setAgent] = useState<SimplifiedUtcpAgent | null>(null);
+  // Latest agent, also while a run of a replaced agent is still finishing
+  const agentRef = useRef<SimplifiedUtcpAgent | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const approvalResolverRef = useRef<((decision: ToolApprovalDecision) => void) | null>(null);
+  const planResolverRef = useRef<((plan: AgentPlan) => void) | null>(null);
+  const userInputResolverRef = useRef<((values: Record<string, unknown> | null) => void) | null>(null);
   
-  const { addMessage, setStreaming, setCurrentStreamingMessage, updateAgentMetadata } = useChatStore();
+  const {
+    addMessage,
+    setStreaming,
+    setCurrentStreamingMessage,
+    appendStreamingContent,
+    clearStreamingContent,
+    setPendingApproval,
+    setPendingUserInput,
+    setCurrentPlan,
+    setPlanAwaitingReview,
+    updateAgentMetadata,
+    setCurrentActivity,
+    setActivityMessageId,
+    setMessages,
+  } = useChatStore();
   const { config: llmConfig, isHydrated } = useLLMStore();
   const { getConfig: getClientConfig, configDict, addVariable } = useUtcpConfigStore();
+  const historyRevision = useConversationStore((state) => state.historyRevision);
+  const agentConfig = useAgentSettingsStore((state) => state.agentConfig);
+  const promptTemplates = useAgentSettingsStore((state) => state.promptTemplates);
+
+  // Encrypt secrets as they change and lock them after inactivity
+  useEffect(() => startSecretVault(), []);
+
+  // Reopen the last conversation from IndexedDB
+  useEffect(() => {
+    useConversationStore.getState().loadConversations().catch((err) => {
+      console.error("Failed to load conversations:", err);
+    });
+  }, []);
+
+  // Give the agent the history of the conversation that was opened or cleared
+  useEffect(() => {
+    agentRef.current?.setHistory(getConversationHistory());
+  }, [historyRevision]);
 
   // Initialize UTCP client and agent when config changes
   useEffect(() => {
@@ -37,77 +98,67 @@ function App() {
         }
         
         // Validate LLM configuration
-        if (!llmConfig.apiKey) {
+        if (isVaultLocked()) {
+          // The models hold the decrypted keys; after unlocking, the new agent
+          // gets the conversation back from the saved history
+          agentRef.current = null;
+          setAgent(null);
+          setError("Unlock your secrets in the sidebar to use the saved API keys");
+          return;
+        }
+        if (LLM_PROVIDERS[llmConfig.provider]?.requiresApiKey && !llmConfig.apiKey) {
           setError("Please configure your API key in the sidebar");
           return;
         }
 
-        // Set environment variables for LangChain (fallback if direct API key passing fails)
-        if (typeof process !== 'undefined' && process.env) {
-          switch (llmConfig.provider) {
-            case "openai":
-              process.env.OPENAI_API_KEY = llmConfig.apiKey;
-              if (llmConfig.organizationId) {
-                process.env.OPENAI_ORGANIZATION = llmConfig.organizationId;
-              }
-              break;
-            case "anthropic":
-              process.env.ANTHROPIC_API_KEY = llmConfig.apiKey;
-              break;
-            case "google":
-              process.env.GOOGLE_API_KEY = llmConfig.apiKey;
-              break;
+        setProviderEnvironment(llmConfig);
+
+        // The agent retries and falls back per error class itself, so LangChain must not retry too
+        const llmOptions = { maxRetries: 0 };
+
+        // Main model, used for every phase without its own model
+        const llm = createLLM(llmConfig, llmConfig.model, llmOptions);
+
+        // Optional per-phase models, e.g. a cheap router and a strong responder
+        const phaseModels: Partial<Record<LLMPhase, BaseLanguageModel>> = {};
+        for (const [phase, model] of Object.entries(llmConfig.phaseModels || {}) as [LLMPhase, string][]) {
+          if (model && model !== llmConfig.model) {
+            phaseModels[phase] = createLLM(llmConfig, model, llmOptions);
           }
         }
 
-        // Create LLM instance based on provider
-        let llm: BaseLanguageModel;
-        
-        switch (llmConfig.provider) {
-          case "openai":
-            // o1 and o3 models don't support temperature or maxTokens parameters
-            const isO1Model = llmConfig.model.includes("o1") || llmConfig.model.includes("o3");
-            const openaiConfig: any = {
-              modelName: llmConfig.model,
-              apiKey: llmConfig.apiKey,
-              configuration: {
-                baseURL: llmConfig.baseUrl,
-                organization: llmConfig.organizationId,
-              },
-            };
-            
-            // Only add temperature and maxTokens for models that support them
-            if (!isO1Model) {
-              openaiConfig.temperature = llmConfig.temperature;
-              openaiConfig.maxTokens = llmConfig.maxTokens;
-            }
-            
-            llm = new ChatOpenAI(openaiConfig);
-            break;
-          
-          case "anthropic":
-            const anthropicConfig: AnthropicInput & BaseChatModelParams = {
-              modelName: llmConfig.model,
-              apiKey: llmConfig.apiKey,
-              temperature: llmConfig.temperature,
-              maxTokens: llmConfig.maxTokens,
-            };
-            
-            llm = new ChatAnthropic(anthropicConfig);
-            break;
-          
-          case "google":
-            llm = new ChatGoogleGenerativeAI({
-              model: llmConfig.model,
-              apiKey: llmConfig.apiKey,
-              temperature: llmConfig.temperature,
-              maxOutputTokens: llmConfig.maxTokens,
+        // Fallback chain, e.g. gpt-4o -> claude-sonnet -> gemini-flash.
+        // A fallback that cannot be built is skipped so it never takes the main model down with it
+        const fallbackModels: { provider: LLMProvider; llm: BaseLanguageModel }[] = [];
+        for (const fallback of llmConfig.fallbacks || []) {
+          if (!fallback.model) {
+            continue;
+          }
+          // Same-provider fallbacks may reuse the main key
+          const apiKey = fallback.apiKey || (fallback.provider === llmConfig.provider ? llmConfig.apiKey : undefined);
+          if (LLM_PROVIDERS[fallback.provider]?.requiresApiKey && !apiKey) {
+            console.warn(`[App] Skipping fallback ${fallback.provider}/${fallback.model}: it has no API key`);
+            continue;
+          }
+          try {
+            fallbackModels.push({
+              provider: fallback.provider,
+              llm: createLLM(
+                {
+                  ...llmConfig,
+                  ...fallback,
+                  apiKey,
+                  // Base URLs never carry over
+                  baseUrl: fallback.baseUrl || undefined,
+                  phaseModels: undefined,
+                },
+                fallback.model,
+                llmOptions
+              ),
             });
-            break;
-          
-          default:
-            setError(`Provider ${llmConfig.provider} is not yet supported. Please use OpenAI, Anthropic, or Google Gemini.`);
-            return;
+          } catch (err) {
+            console.warn(`[App] Skipping fallback ${fallback.provider}/${fallback.model}:`, err);
+          }
         }
 
         // Create UTCP client with full configuration
@@ -122,18 +173,39 @@ function App() {
           }
         );
 
+        // Load the model's tokenizer so context accounting is accurate from the first message
+        const tokenCounter = createTokenCounter(llmConfig.provider, llmConfig.model);
+        await tokenCounter.ready;
+
         // Create simplified agent (browser-compatible, uses LangChain)
         const newAgent = new SimplifiedUtcpAgent(
           llm,
           client,
           {
-            maxIterations: 5,
-            maxToolsPerSearch: 10,
-            systemPrompt: "You are a helpful AI assistant with access to tools through UTCP.",
-            summarizeThreshold: 80000,
+            maxIterations: agentConfig.maxIterations,
+            recursionLimit: agentConfig.recursionLimit,
+            maxToolsPerSearch: agentConfig.maxToolsPerSearch,
+            systemPrompt: agentConfig.systemPrompt,
+            summarizeThreshold: agentConfig.summarizeThreshold ?? undefined,
+            maxResultTokens: agentConfig.maxResultTokens,
+            tokenCounter,
+            contextWindow: getModelCapabilities(llmConfig.provider, llmConfig.model, llmConfig.capabilityOverrides).contextWindow,
+            phaseModels,
+            provider: llmConfig.provider,
+            capabilityOverrides: llmConfig.capabilityOverrides,
+            fallbackModels,
+            retryRules: llmConfig.retryRules,
+            promptTemplates,
           }
         );
         
+        // Settings changes rebuild the agent; it must keep the conversation's context
+        if (agentRef.current) {
+          newAgent.continueFrom(agentRef.current);
+        } else {
+          newAgent.setHistory(getConversationHistory());
+        }
+        agentRef.current = newAgent;
         setAgent(newAgent);
       } catch (err: any) {
         console.error("Failed to initialize agent:", err);
@@ -151,18 +223,90 @@ function App() {
     llmConfig.organizationId,
     llmConfig.temperature,
     llmConfig.maxTokens,
+    llmConfig.customModels,
+    llmConfig.phaseModels,
+    llmConfig.capabilityOverrides,
+    llmConfig.fallbacks,
+    llmConfig.retryRules,
     configDict,
-  ]); // Re-init when LLM parameters or UTCP config changes
+    agentConfig,
+    promptTemplates,
+  ]); // Re-init when LLM parameters, UTCP config or agent settings change
+
+  const approveToolCall = (request: ToolApprovalRequest): Promise<ToolApprovalDecision> => {
+    const policy = useApprovalStore.getState().getPolicy(request.toolName, request.manualName);
+    if (policy === "auto") {
+      return Promise.resolve({ approved: true });
+    }
+    if (policy === "deny") {
+      return Promise.resolve({
+        approved: false,
+        reason: `The user's approval policy does not allow calling ${request.toolName}`,
+      });
+    }
+    
+    // Wait for the user to decide in the chat
+    return new Promise((resolve) => {
+      approvalResolverRef.current = resolve;
+      setPendingApproval(request);
+    });
+  };
+
+  const handleApprovalDecision = (decision: ToolApprovalDecision) => {
+    approvalResolverRef.current?.(decision);
+    approvalResolverRef.current = null;
+    setPendingApproval(null);
+  };
+
+  const askUser = (request: UserInputRequest): Promise<Record<string, unknown> | null> => {
+    // Wait for the user to fill in the form in the chat
+    return new Promise((resolve) => {
+      userInputResolverRef.current = resolve;
+      setPendingUserInput(request);
+    });
+  };
+
+  const handleUserInput = (values: Record<string, unknown> | null) => {
+    userInputResolverRef.current?.(values);
+    userInputResolverRef.current = null;
+    setPendingUserInput(null);
+  };
+
+  const reviewPlan = (plan: AgentPlan): Promise<AgentPlan> => {
+    // Wait for the user to edit and start the plan in the chat
+    return new Promise((resolve) => {
+      planResolverRef.current = resolve;
+      setCurrentPlan(plan);
+      setPlanAwaitingReview(true);
+    });
+  };
+
+  const handlePlanConfirm = (plan: AgentPlan) => {
+    planResolverRef.current?.(plan);
+    planResolverRef.current = null;
+    setPlanAwaitingReview(false);
+    setCurrentPlan(plan);
+  };
 
   const handleSendMessage = async (message: string) => {
     if (!agent) {
       addMessage({
         role: "assistant",
-        content: "Please configure your LLM provider in the sidebar first.",
+        content: isVaultLocked()
+          ? "Unlock your secrets in the sidebar to continue."
+          : "Please configure your LLM provider in the sidebar first.",
       });
       return;
     }
 
+    const budgetMessage = () =>
+      `Stopped: this conversation has reached its budget of ${formatCost(useUsageStore.getState().conversationBudget ?? 0)}. Raise the budget in the sidebar to continue.`;
+    const previousUsage = getConversationUsage(useChatStore.getState().messages);
+    if (exceedsBudget(previousUsage)) {
+      addMessage({ role: "assistant", content: budgetMessage() });
+      return;
+    }
+
     // Add user message
     addMessage({
       role: "user",
@@ -171,12 +315,45 @@ function App() {
 
     setStreaming(true);
     setCurrentStreamingMessage("");
+    clearStreamingContent();
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Gathered during the run so a cancelled run can still show partial results
+    let partialResponse = "";
+    const toolCalls: ToolCall[] = [];
+    let plan: AgentPlan | undefined;
+    const usage: LLMUsage[] = [];
+    let budgetExceeded = false;
+    let activity: AgentActivity[] = [];
+    setCurrentActivity([]);
+    // Let the activity panel follow this run
+    setActivityMessageId(null);
 
     try {
       // Stream agent execution
       let fullResponse = "";
       
-      for await (const step of agent.stream(message)) {
+      const planning = useAgentSettingsStore.getState().planningMode;
+      for await (const step of agent.stream(message, {
+        signal: abortController.signal,
+        approveToolCall,
+        askUser,
+        planning,
+        reviewPlan,
+      })) {
+        if (step.usage) {
+          usage.push(...step.usage);
+          if (exceedsBudget([...previousUsage, ...usage])) {
+            budgetExceeded = true;
+            abortController.abort();
+          }
+        }
+
+        activity = addActivityStep(activity, step);
+        setCurrentActivity(activity);
+
         // Update UI based on step
         updateAgentMetadata({ currentStep: step.step as any });
         
@@ -198,9 +375,31 @@ function App() {
           });
         }
         
+        if (step.step === "execute" && step.data?.toolName) {
+          const result = step.data.result;
+          const failed = result && typeof result === "object" && "error" in result;
+          toolCalls.push({
+            toolName: step.data.toolName,
+            manualName: step.data.manualName,
+            arguments: step.data.arguments,
+            result: failed ? undefined : result,
+            error: failed ? String(result.error) : undefined,
+            durationMs: step.data.durationMs,
+          });
+        }
+        
+        if ((step.step === "plan" || step.step === "plan_step") && step.data?.plan) {
+          plan = step.data.plan;
+          setCurrentPlan(step.data.plan);
+        }
+        
+        if (step.step === "respond" && step.data?.delta) {
+          partialResponse += step.data.delta;
+          appendStreamingContent(step.data.delta);
+        }
+        
         if (step.step === "respond" && step.data?.response) {
           fullResponse = step.data.response;
-          setCurrentStreamingMessage(fullResponse);
         }
       }
 
@@ -209,23 +408,83 @@ function App() {
         addMessage({
           role: "assistant",
           content: fullResponse,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          plan,
+          usage,
+          activity: finishActivity(activity),
         });
       } else {
         addMessage({
           role: "assistant",
           content: "I completed the workflow but didn't generate a final response.",
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          plan,
+          usage,
+          activity: finishActivity(activity),
         });
       }
     } catch (err: any) {
-      console.error("Error during chat:", err);
-      addMessage({
-        role: "assistant",
-        content: `Error: ${err.message}`,
-      });
+      if (abortController.signal.aborted) {
+        const content = [partialResponse, budgetExceeded ? budgetMessage() : ""].filter(Boolean).join("\n\n");
+        addMessage({
+          role: "assistant",
+          content: content || "Cancelled before a response was generated.",
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          plan,
+          cancelled: true,
+          usage,
+          activity: finishActivity(activity),
+        });
+      } else {
+        console.error("Error during chat:", err);
+        addMessage({
+          role: "assistant",
+          content: `Error: ${err.message}`,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          usage,
+          activity: finishActivity(activity),
+        });
+      }
     } finally {
+      abortControllerRef.current = null;
+      approvalResolverRef.current = null;
+      planResolverRef.current = null;
+      userInputResolverRef.current = null;
+      setPendingApproval(null);
+      setPendingUserInput(null);
+      setCurrentPlan(null);
+      setPlanAwaitingReview(false);
       setStreaming(false);
       setCurrentStreamingMessage("");
+      clearStreamingContent();
+      setCurrentActivity([]);
+      useConversationStore.getState()
+        .saveActiveConversation(mapChatMessagesToStoredMessages(agent.getHistory()))
+        .catch((err) => console.error("Failed to save the conversation:", err));
+      // The settings changed during the run: the new agent still has the history from before it
+      if (agentRef.current && agentRef.current !== agent) {
+        agentRef.current.continueFrom(agent);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Drop the last user message and everything after it, in the chat and the agent's history, and send it again
+  const handleRerunLastTurn = () => {
+    const messages = useChatStore.getState().messages;
+    const index = messages.map(message => message.role).lastIndexOf("user");
+    if (!agent || index === -1) {
+      return;
+    }
+    const input = messages[index].content;
+    if (!agent.removeLastTurn()) {
+      console.warn("[App] The last turn was not found in the agent's history; only the chat is rewound");
     }
+    setMessages(messages.slice(0, index));
+    handleSendMessage(input);
   };
 
   return (
@@ -237,8 +496,15 @@ function App() {
             ⚠️ {error}
           </div>
         )}
-        <Chat onSendMessage={handleSendMessage} />
+        <Chat
+          onSendMessage={handleSendMessage}
+          onStop={handleStop}
+          onApprovalDecision={handleApprovalDecision}
+          onPlanConfirm={handlePlanConfirm}
+          onUserInput={handleUserInput}
+        />
       </div>
+      <AgentInspector agent={agent} onRerunLastTurn={handleRerunLastTurn} />
     </div>
   );
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { UtcpClient } from "@utcp/sdk";
+import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { createUserTurnMessage } from "@/utils/messageConverter";
+import { SimplifiedUtcpAgent } from "./SimplifiedUtcpAgent";
+
+// The history methods never reach the LLM or the UTCP client
+function createAgent(): SimplifiedUtcpAgent {
+  return new SimplifiedUtcpAgent(new FakeListChatModel({ responses: [] }), {} as UtcpClient);
+}
+
+describe("SimplifiedUtcpAgent history", () => {
+  const history = [
+    createUserTurnMessage("Weather in Berlin?"),
+    new AIMessage("Tool called: weather.get_forecast with arguments: {}"),
+    new HumanMessage("Tool result: sunny"),
+    createUserTurnMessage("And tomorrow?"),
+    new AIMessage("Tool called: weather.get_forecast with arguments: {}"),
+    new HumanMessage("Tool result: rain"),
+  ];
+
+  it("removes the last user turn by position, whatever its text", () => {
+    const agent = createAgent();
+    agent.setHistory(history);
+    expect(agent.removeLastTurn()).toBe(true);
+    expect(agent.getHistory()).toEqual(history.slice(0, 3));
+    expect(agent.removeLastTurn()).toBe(true);
+    expect(agent.getHistory()).toEqual([]);
+    expect(agent.removeLastTurn()).toBe(false);
+  });
+
+  it("does not treat tool results as user turns", () => {
+    const agent = createAgent();
+    agent.setHistory([new HumanMessage("Weather in Berlin?"), new HumanMessage("Tool result: sunny")]);
+    expect(agent.removeLastTurn()).toBe(false);
+    expect(agent.getHistory()).toHaveLength(2);
+  });
+
+  it("keeps system messages out of an edited history", () => {
+    const agent = createAgent();
+    agent.editHistory([new SystemMessage("Be brief."), ...history.slice(0, 2)]);
+    expect(agent.getHistory()).toEqual(history.slice(0, 2));
+  });
+});
@@ -14,68 +14,422 @@
 
 import { UtcpClient } from "@utcp/sdk";
 import type { Tool } from "@utcp/sdk";
-import type { BaseLanguageModel } from "@langchain/core/language_models/base";
-import type { BaseMessage } from "@langchain/core/messages";
+import type { BaseLanguageModel, ToolDefinition } from "@langchain/core/language_models/base";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
 import { HumanMessage, AIMessage, SystemMessage } from "@langchain/core/messages";
+import type {
+  AgentPlan,
+  AgentStepName,
+  LLMPromptRecord,
+  DecisionData,
+  DecisionMode,
+  PlanStep,
+  PlanStepStatus,
+  PromptTemplateName,
+  PromptTemplates,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  ToolCallRequest,
+  UserInputRequest,
+} from "@/types/agent.types";
+import { utcpToolsToNativeTools } from "@/utils/toolConverter";
+import { formatValidationErrors, MISSING_PARAMETER_MESSAGE, validateJsonSchema } from "@/utils/jsonSchemaValidator";
+import { approximateTokenCounter, type TokenCounter } from "@/utils/tokenCounter";
+import { ToolResultStore } from "@/agent/ToolResultStore";
+import { getModelCapabilities } from "@/utils/modelCapabilities";
+import { renderPromptTemplate, resolvePromptTemplates } from "@/utils/promptTemplates";
+import { createUserTurnMessage, isUserTurnMessage } from "@/utils/messageConverter";
+import { classifyLLMError, DEFAULT_RETRY_RULES, getRetryDelay, LLM_ERROR_CLASS_LABELS } from "@/utils/llmErrors";
+import type { LLMConfig, LLMErrorClass, LLMPhase, LLMProvider, LLMRetryRule, LLMUsage, ModelCapabilities } from "@/types/llm.types";
 
 interface AgentConfig {
   maxIterations?: number;
+  /** Decide rounds per run across all iterations and plan steps; the agent responds once they are used up */
+  recursionLimit?: number;
   maxToolsPerSearch?: number;
   systemPrompt?: string;
   summarizeThreshold?: number;
+  decisionMode?: DecisionMode;
+  maxParallelToolCalls?: number;
+  /** Tokenizer used for context accounting; defaults to a character approximation */
+  tokenCounter?: TokenCounter;
+  /** Model context window; defaults to the capability registry's value for the main model */
+  contextWindow?: number;
+  /** Tool results above this many tokens go to the result store instead of the prompt */
+  maxResultTokens?: number;
+  /** Models for individual phases; phases without one use the main model */
+  phaseModels?: Partial<Record<LLMPhase, BaseLanguageModel>>;
+  /** Provider of the models, used to look up their capabilities */
+  provider?: LLMProvider;
+  /** User corrections to the capability registry, keyed by model name */
+  capabilityOverrides?: LLMConfig["capabilityOverrides"];
+  /** Models switched to, in order, when the current model keeps failing */
+  fallbackModels?: FallbackModel[];
+  /** Retry and fallback behaviour per error class; unset classes use DEFAULT_RETRY_RULES */
+  retryRules?: Partial<Record<LLMErrorClass, LLMRetryRule>>;
+  /** Edited phase prompts; unset or invalid ones use DEFAULT_PROMPT_TEMPLATES */
+  promptTemplates?: Partial<PromptTemplates>;
+}
+
+interface FallbackModel {
+  llm: BaseLanguageModel;
+  provider: LLMProvider;
+}
+
+// Options resolved into their own fields instead of being kept in `config`
+type ResolvedAgentOption =
+  | "tokenCounter"
+  | "contextWindow"
+  | "phaseModels"
+  | "provider"
+  | "capabilityOverrides"
+  | "fallbackModels"
+  | "retryRules"
+  | "promptTemplates";
+
+interface ModelSwitch {
+  from: string;
+  to: string;
+  errorClass: LLMErrorClass;
+  error: string;
+}
+
+// Fixed per-message overhead (role and separators) in chat-formatted prompts
+const TOKENS_PER_MESSAGE = 4;
+
+const ASK_USER_TOOL_NAME = "ask_user";
+
+// Offered alongside the real tools so the LLM can ask instead of inventing parameter values
+const ASK_USER_TOOL: ToolDefinition = {
+  type: "function",
+  function: {
+    name: ASK_USER_TOOL_NAME,
+    description: "Ask the user for tool parameters you do not know and cannot infer from the conversation, instead of guessing them. The run pauses until the user answers.",
+    parameters: {
+      type: "object",
+      properties: {
+        tool_name: { type: "string", description: "The tool you want to call" },
+        missing_parameters: { type: "array", items: { type: "string" }, description: "Names of the parameters to ask for" },
+        question: { type: "string", description: "Short question shown to the user above the form" },
+        known_arguments: { type: "object", description: "Arguments for the tool that you already know" },
+      },
+      required: ["tool_name", "missing_parameters", "question"],
+    },
+  },
+};
+
+const MAX_PLAN_STEPS = 8;
+// Final prompts kept for inspection
+const MAX_PROMPT_LOG = 20;
+const MAX_PLAN_REVISIONS = 2;
+
+interface AgentStreamOptions {
+  /** Aborts in-flight LLM and tool calls and stops the run */
+  signal?: AbortSignal;
+  /** Called before each tool call; without it every call is executed */
+  approveToolCall?: (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+  /** Called when the agent needs tool parameters only the user knows; resolves with the values, or null if skipped */
+  askUser?: (request: UserInputRequest) => Promise<Record<string, unknown> | null>;
+  /** Plan first, then execute the plan step by step */
+  planning?: boolean;
+  /** Called with the initial plan in planning mode; resolves with the (possibly edited) plan to run */
+  reviewPlan?: (plan: AgentPlan) => Promise<AgentPlan>;
 }
 
 interface AgentStep {
-  step: "analyze" | "search" | "decide" | "execute" | "respond";
+  step: AgentStepName;
   data?: any;
   message?: string;
+  /** Model that served the LLM call behind this step */
+  model?: string;
+  /** Tokens used by the LLM calls made since the previous step */
+  usage?: LLMUsage[];
+}
+
+// Steps whose data comes from an LLM call
+const LLM_STEPS: ReadonlySet<AgentStepName> = new Set(["analyze", "plan", "decide", "respond"]);
+
+/**
+ * Race a promise against an abort signal.
+ * UtcpClient.callTool has no cancellation support, so the underlying request
+ * may still complete in the background - its result is simply discarded.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Extract the text from message content, which may be a plain string or
+ * (e.g. for Anthropic streams) an array of content blocks
+ */
+function contentToText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(block => (typeof block === "string" ? block : block?.type === "text" ? block.text ?? "" : ""))
+      .join("");
+  }
+  return "";
+}
+
+function getModelName(llm: BaseLanguageModel): string {
+  const model = llm as unknown as { modelName?: string; model?: string };
+  return model.modelName || model.model || "";
+}
+
+/**
+ * Token counts from a response's usage_metadata; providers that don't report usage yield zeros
+ */
+function getTokenUsage(message: unknown): { inputTokens: number; outputTokens: number } {
+  const usage = (message as { usage_metadata?: { input_tokens?: number; output_tokens?: number } } | undefined)?.usage_metadata;
+  return { inputTokens: usage?.input_tokens || 0, outputTokens: usage?.output_tokens || 0 };
+}
+
+function getManualName(toolName: string, tool?: Tool): string {
+  return tool?.tool_call_template?.name || toolName.split(".")[0];
+}
+
+function createPlanStep(description: string): PlanStep {
+  return { id: crypto.randomUUID(), description, status: "pending" };
+}
+
+function formatToolList(tools: Tool[]): string {
+  return tools.length > 0
+    ? tools.map(t => `- ${t.name}: ${t.description}`).join("\n")
+    : "No tools available";
+}
+
+/**
+ * Conversation as "Human: ..." / "Assistant: ..." lines, for summaries and {history} placeholders
+ */
+function formatConversation(messages: BaseMessage[]): string {
+  return messages
+    .map((msg) => {
+      const role = msg._getType() === "human" ? "Human" : "Assistant";
+      return `${role}: ${msg.content}`;
+    })
+    .join("\n");
+}
+
+function formatPlan(plan: AgentPlan): string {
+  return plan.steps.map((step, index) => `${index + 1}. [${step.status}] ${step.description}`).join("\n");
+}
+
+/**
+ * Parse a {"steps": [...]} planning response. Returns null when no plan could be read.
+ */
+function parsePlanSteps(response: string): string[] | null {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(response.substring(start, end + 1));
+    if (!Array.isArray(parsed.steps)) {
+      return null;
+    }
+    return parsed.steps
+      .map((step: unknown) => (typeof step === "string" ? step : (step as { description?: unknown })?.description))
+      .filter((step: unknown): step is string => typeof step === "string" && step.trim() !== "")
+      .map((step: string) => step.trim())
+      .slice(0, MAX_PLAN_STEPS);
+  } catch {
+    return null;
+  }
 }
 
 export class SimplifiedUtcpAgent {
   private llm: BaseLanguageModel;
   private utcpClient: UtcpClient;
-  private config: Required<AgentConfig>;
+  private config: Required<Omit<AgentConfig, ResolvedAgentOption>>;
+  private phaseModels: Partial<Record<LLMPhase, BaseLanguageModel>>;
+  private provider?: LLMProvider;
+  private capabilityOverrides?: LLMConfig["capabilityOverrides"];
+  private fallbackModels: FallbackModel[];
+  private retryRules: Record<LLMErrorClass, LLMRetryRule>;
+  private promptTemplates: PromptTemplates;
+  /** Number of fallback models switched to in the current run; 0 while the configured models serve */
+  private fallbackIndex = 0;
+  private pendingModelSwitches: ModelSwitch[] = [];
+  private lastServedModel?: string;
+  private pendingUsage: LLMUsage[] = [];
+  /** Latest analyzed task and tools found in the current run, for the {task} and {tools} placeholders */
+  private currentTask = "";
+  private currentTools: Tool[] = [];
+  /** What the LLM returned for the current decision, before parsing */
+  private lastRawDecision?: unknown;
+  /** Decide rounds taken in the current run, counted against recursionLimit */
+  private decisionRounds = 0;
+  private promptLog: LLMPromptRecord[] = [];
+  private tokenCounter: TokenCounter;
+  private resultStore: ToolResultStore;
   private messages: BaseMessage[] = [];
   private systemMessage: SystemMessage;
-  private isO1Model: boolean = false;
+  private abortSignal?: AbortSignal;
+  private approveToolCall?: AgentStreamOptions["approveToolCall"];
+  private reviewPlan?: AgentStreamOptions["reviewPlan"];
+  private askUser?: AgentStreamOptions["askUser"];
 
   constructor(llm: BaseLanguageModel, utcpClient: UtcpClient, config?: AgentConfig) {
     console.log("Initializing SimplifiedUtcpAgent");
     this.llm = llm;
     this.utcpClient = utcpClient;
+    this.provider = config?.provider;
+    this.capabilityOverrides = config?.capabilityOverrides;
+    this.fallbackModels = config?.fallbackModels || [];
+    this.retryRules = { ...DEFAULT_RETRY_RULES, ...config?.retryRules };
+    this.promptTemplates = resolvePromptTemplates(config?.promptTemplates);
+    const contextWindow = config?.contextWindow || this.getCapabilities(llm).contextWindow;
     this.config = {
       maxIterations: config?.maxIterations || 3,
+      recursionLimit: config?.recursionLimit || 25,
       maxToolsPerSearch: config?.maxToolsPerSearch || 10,
       systemPrompt: config?.systemPrompt || "You are a helpful AI assistant.",
-      summarizeThreshold: config?.summarizeThreshold || 80000,
+      summarizeThreshold: config?.summarizeThreshold || Math.floor(contextWindow * 0.75),
+      decisionMode: config?.decisionMode || "auto",
+      maxParallelToolCalls: config?.maxParallelToolCalls || 3,
+      maxResultTokens: config?.maxResultTokens || 4000,
     };
+    this.tokenCounter = config?.tokenCounter || approximateTokenCounter;
+    // Pages are sized in characters; ~2 chars per token keeps even dense JSON pages under the limit
+    this.resultStore = new ToolResultStore(this.config.maxResultTokens * 2);
     this.systemMessage = new SystemMessage(this.config.systemPrompt);
+    this.phaseModels = config?.phaseModels || {};
     
-    // Detect if using o1 model (which doesn't support system messages)
-    const modelName = (llm as any)?.modelName || (llm as any)?.model || "";
-    this.isO1Model = modelName.includes("o1") || modelName.includes("o3");
-    if (this.isO1Model) {
-      console.log(`[Agent] Detected o1/o3 model: ${modelName}. System messages will be converted to user messages.`);
+    for (const model of [llm, ...Object.values(this.phaseModels)]) {
+      if (!this.getCapabilities(model).supportsSystemMessage) {
+        console.log(`[Agent] ${getModelName(model)} does not support system messages. They will be converted to user messages.`);
+      }
     }
     
     console.log("SimplifiedUtcpAgent initialization complete");
   }
 
-  async *stream(userInput: string): AsyncGenerator<AgentStep> {
+  /**
+   * The conversation so far (without the system message), e.g. to persist it
+   */
+  getHistory(): BaseMessage[] {
+    return this.messages.filter(m => m._getType() !== "system");
+  }
+
+  /**
+   * Replace the conversation, e.g. when another conversation is opened.
+   * Stored tool results are not part of the history and are discarded.
+   */
+  setHistory(messages: BaseMessage[]): void {
+    this.messages = messages.filter(m => m._getType() !== "system");
+    this.resultStore = new ToolResultStore(this.config.maxResultTokens * 2);
+  }
+
+  /**
+   * Replace history entries, e.g. after the user edited or deleted some.
+   * Unlike setHistory, the stored tool results are kept.
+   */
+  editHistory(messages: BaseMessage[]): void {
+    this.messages = messages.filter(m => m._getType() !== "system");
+  }
+
+  /**
+   * Remove the last user turn and everything after it, so the turn can be run
+   * again. Returns false when the history has no marked user turn (e.g. one
+   * saved before turns were marked).
+   */
+  removeLastTurn(): boolean {
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      if (isUserTurnMessage(this.messages[i])) {
+        this.messages = this.messages.slice(0, i);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * The last LLM prompts exactly as sent (after system-message handling), oldest first
+   */
+  getPromptLog(): LLMPromptRecord[] {
+    return [...this.promptLog];
+  }
+
+  /**
+   * Take over the conversation of an agent this one replaces (e.g. after a
+   * settings change), including the stored tool results its history refers to
+   */
+  continueFrom(previous: SimplifiedUtcpAgent): void {
+    this.messages = previous.getHistory();
+    this.resultStore = previous.resultStore;
+    this.resultStore.setPageSize(this.config.maxResultTokens * 2);
+    this.promptLog = previous.getPromptLog();
+  }
+
+  async *stream(userInput: string, options?: AgentStreamOptions): AsyncGenerator<AgentStep> {
     // Preserve previous messages and add new user input
     // Remove old system message if it exists and add the current one
     const nonSystemMessages = this.messages.filter(m => m._getType() !== "system");
     this.messages = [
       this.systemMessage,
       ...nonSystemMessages,
-      new HumanMessage(userInput),
+      createUserTurnMessage(userInput),
     ];
 
+    this.abortSignal = options?.signal;
+    this.approveToolCall = options?.approveToolCall;
+    this.reviewPlan = options?.reviewPlan;
+    this.askUser = options?.askUser;
+    // Every run starts on the configured models again
+    this.fallbackIndex = 0;
+    this.pendingModelSwitches = [];
+    this.pendingUsage = [];
+    this.decisionRounds = 0;
+    this.currentTask = "";
+    this.currentTools = [];
+    try {
+      for await (const step of options?.planning ? this.runPlanLoop() : this.runLoop()) {
+        yield* this.reportModelSwitches();
+        const usage = this.pendingUsage.splice(0);
+        yield {
+          ...step,
+          ...(LLM_STEPS.has(step.step) && step.data ? { model: this.lastServedModel } : {}),
+          ...(usage.length > 0 ? { usage } : {}),
+        };
+      }
+    } catch (error) {
+      if (this.abortSignal?.aborted) {
+        // Let the next turn know this request was never answered
+        this.messages.push(new AIMessage("(The user cancelled this request before a response was given.)"));
+      }
+      throw error;
+    } finally {
+      this.abortSignal = undefined;
+      this.approveToolCall = undefined;
+      this.reviewPlan = undefined;
+      this.askUser = undefined;
+    }
+  }
+
+  private async *runLoop(): AsyncGenerator<AgentStep> {
     let iterations = 0;
     let shouldContinue = true;
 
     while (shouldContinue && iterations < this.config.maxIterations!) {
       iterations++;
+      this.abortSignal?.throwIfAborted();
+      if (!this.takeDecisionRound()) {
+        yield* this.respond();
+        return;
+      }
 
       // Step 1: Analyze task
       yield { step: "analyze", message: "Analyzing your request..." };
@@ -85,56 +439,27 @@ export class SimplifiedUtcpAgent {
       // Step 2: Search tools
       yield { step: "search", message: "Searching for relevant tools..." };
       const tools = await this.searchTools(task);
-      yield { step: "search", data: { tools: tools.slice(0, 5) }, message: `Found ${tools.length} tools` };
+      yield { step: "search", data: { tools }, message: `Found ${tools.length} tools` };
 
       // Step 3: Decide action
       yield { step: "decide", message: "Deciding next action..." };
-      const decision = await this.decideAction(task, tools, iterations);
+      let decision = await this.decideAction(task, tools, iterations);
       yield { step: "decide", data: decision, message: `Action: ${decision.action}` };
 
+      if (decision.action === "ask_user") {
+        // Pause for the missing parameters, then carry on with the completed call in this iteration
+        const answered = yield* this.requestUserInput(decision, tools);
+        if (!answered) {
+          continue;
+        }
+        decision = answered;
+      }
+
       if (decision.action === "respond") {
-        // Generate final response
-        yield { step: "respond", message: "Generating response..." };
-        const response = await this.generateResponse();
-        yield { step: "respond", data: { response }, message: response };
+        yield* this.respond();
         shouldContinue = false;
       } else if (decision.action === "call_tool") {
-        // Execute tool
-        yield { step: "execute", message: `Calling tool: ${decision.toolName}` };
-        const result = await this.executeTool(decision.toolName!, decision.arguments || {});
-        yield { step: "execute", data: { result }, message: "Tool executed" };
-        
-        // Check if the result is an error
-        if (result && typeof result === "object" && "error" in result) {
-          // Tool execution failed - the error has already been added to messages by executeTool
-          // Continue loop to let LLM try again with corrected parameters
-          console.log(`[Stream] Tool execution failed, continuing loop for retry`);
-        } else {
-          // Tool execution succeeded - add result to messages
-          this.messages.push(
-            new AIMessage(`Tool called: ${decision.toolName} with arguments: ${JSON.stringify(decision.arguments)}`)
-          );
-
-          const resultStr = typeof result === "string" ? result : JSON.stringify(result);
-          
-          if (resultStr.trim() === "") {
-            this.messages.push(
-              new HumanMessage("Result is empty. Try different arguments or a different tool.")
-            );
-          } else {
-            // Truncate if too long
-            if (this.estimateTokenCount([new HumanMessage(resultStr)]) > this.config.summarizeThreshold) {
-              this.messages.push(
-                new HumanMessage(`Result is too long to display. Try different arguments or a different tool. This is the beginning of the result: ${resultStr.substring(0, 100)}...`)
-              );
-            } else {
-              this.messages.push(
-                new HumanMessage(`Tool result: ${resultStr}`)
-              );
-            }
-          }
-        }
-        
+        yield* this.runToolCalls(decision, tools);
         // Continue loop to re-analyze after tool execution (matching UtcpAgent's loop-back behavior)
       } else {
         shouldContinue = false;
@@ -142,41 +467,597 @@ export class SimplifiedUtcpAgent {
     }
   }
 
-  private async callLLM(messages: BaseMessage[]): Promise<string> {
+  /**
+   * Planning mode: produce an explicit plan once, let the user review it, then
+   * work through it step by step, revising the remaining steps when one fails
+   */
+  private async *runPlanLoop(): AsyncGenerator<AgentStep> {
+    this.abortSignal?.throwIfAborted();
+
+    yield { step: "analyze", message: "Analyzing your request..." };
+    const task = await this.analyzeTask();
+    yield { step: "analyze", data: { task }, message: `Task: ${task}` };
+
+    yield { step: "search", message: "Searching for relevant tools..." };
+    const tools = await this.searchTools(task);
+    yield { step: "search", data: { tools }, message: `Found ${tools.length} tools` };
+
+    yield { step: "plan", message: "Creating a plan..." };
+    let plan = await this.createPlan(task, tools);
+    yield { step: "plan", data: { plan }, message: `Plan with ${plan.steps.length} steps` };
+
+    if (this.reviewPlan) {
+      plan = await abortable(this.reviewPlan(plan), this.abortSignal);
+      yield { step: "plan", data: { plan }, message: `Running plan with ${plan.steps.length} steps` };
+    }
+    this.messages.push(new AIMessage(`My plan for "${plan.goal}":\n${formatPlan(plan)}`));
+
+    // The step list may grow while iterating when a revision adds new steps
+    for (let index = 0; index < plan.steps.length; index++) {
+      const planStep = plan.steps[index];
+      if (planStep.status !== "pending") {
+        continue;
+      }
+
+      plan = this.withStepStatus(plan, planStep.id, "in_progress");
+      yield {
+        step: "plan_step",
+        data: { plan, stepId: planStep.id, status: "in_progress" },
+        message: `Step ${index + 1}/${plan.steps.length}: ${planStep.description}`,
+      };
+
+      const status = yield* this.executePlanStep(plan, index);
+      plan = this.withStepStatus(plan, planStep.id, status);
+      this.messages.push(new AIMessage(`Plan step ${index + 1} "${planStep.description}" ${status}.`));
+      yield {
+        step: "plan_step",
+        data: { plan, stepId: planStep.id, status },
+        message: `Step ${index + 1} ${status}: ${planStep.description}`,
+      };
+
+      // Revised steps could not run once the recursion limit is reached
+      if (status === "failed" && plan.revision < MAX_PLAN_REVISIONS && this.decisionRounds < this.config.recursionLimit) {
+        yield { step: "plan", message: "Revising the plan..." };
+        plan = await this.revisePlan(plan, planStep);
+        yield { step: "plan", data: { plan, revised: true }, message: `Plan revised (revision ${plan.revision})` };
+      }
+    }
+
+    yield* this.respond();
+  }
+
+  private async *executePlanStep(plan: AgentPlan, index: number): AsyncGenerator<AgentStep, PlanStepStatus> {
+    const planStep = plan.steps[index];
+    const stepTask = `Step ${index + 1} of the plan for "${plan.goal}": ${planStep.description}`;
+
+    yield { step: "search", message: "Searching for relevant tools..." };
+    const tools = await this.searchTools(planStep.description);
+    yield { step: "search", data: { tools }, message: `Found ${tools.length} tools` };
+
+    // Each step gets its own iteration budget; decideAction responds once it is used up
+    let lastAttemptFailed = false;
+    for (let attempt = 1; ; attempt++) {
+      this.abortSignal?.throwIfAborted();
+      if (!this.takeDecisionRound()) {
+        // A step the run had no rounds left for was never tried
+        if (attempt === 1) {
+          return "skipped";
+        }
+        return lastAttemptFailed ? "failed" : "completed";
+      }
+
+      yield { step: "decide", message: "Deciding next action..." };
+      let decision = await this.decideAction(stepTask, tools, attempt);
+      yield { step: "decide", data: decision, message: `Action: ${decision.action}` };
+
+      if (decision.action === "ask_user") {
+        const answered = yield* this.requestUserInput(decision, tools);
+        if (!answered) {
+          lastAttemptFailed = true;
+          continue;
+        }
+        decision = answered;
+      }
+
+      if (decision.action !== "call_tool") {
+        return lastAttemptFailed ? "failed" : "completed";
+      }
+
+      const { succeeded } = yield* this.runToolCalls(decision, tools);
+      lastAttemptFailed = succeeded === 0;
+    }
+  }
+
+  /**
+   * A prompt template with its placeholders filled in. The conversation is
+   * only formatted for templates that use {history}.
+   */
+  private renderPrompt(name: PromptTemplateName, values: Record<string, string> = {}): string {
+    const template = this.promptTemplates[name];
+    if (template.includes("{history}") && values.history === undefined) {
+      values = { ...values, history: formatConversation(this.getHistory()) };
+    }
+    return renderPromptTemplate(template, values);
+  }
+
+  /**
+   * Count a decide round of the current run; false once recursionLimit is used up
+   */
+  private takeDecisionRound(): boolean {
+    if (this.decisionRounds >= this.config.recursionLimit) {
+      console.log(`[Agent] Reached the recursion limit (${this.config.recursionLimit} decide rounds), responding`);
+      return false;
+    }
+    this.decisionRounds++;
+    return true;
+  }
+
+  private withStepStatus(plan: AgentPlan, stepId: string, status: PlanStepStatus): AgentPlan {
+    return {
+      ...plan,
+      steps: plan.steps.map(step => (step.id === stepId ? { ...step, status } : step)),
+    };
+  }
+
+  private async createPlan(task: string, tools: Tool[]): Promise<AgentPlan> {
+    const prompt = `${this.renderPrompt("plan", { task, tools: formatToolList(tools), maxSteps: String(MAX_PLAN_STEPS) })}
+
+Respond ONLY with a JSON object, no other text: {"steps": ["first step", "second step"]}`;
+
+    let descriptions: string[] | null = null;
     try {
-      // First, ensure there is only ONE system message and it's at the top (for ALL models)
-      const systemMessages = messages.filter(msg => msg._getType() === "system");
-      const otherMessages = messages.filter(msg => msg._getType() !== "system");
-      
-      let processedMessages: BaseMessage[] = otherMessages;
-      
-      // Keep only the first system message (consolidate multiple into one)
-      if (systemMessages.length > 0) {
-        processedMessages = [systemMessages[0], ...otherMessages];
+      const planMessages = await this.buildDecisionMessages(prompt);
+      descriptions = parsePlanSteps(await this.callLLM(planMessages));
+    } catch (error) {
+      this.rethrowIfAborted(error);
+      console.error("[Plan] Error creating plan:", error);
+    }
+
+    if (!descriptions || descriptions.length === 0) {
+      console.warn("[Plan] Could not read a plan from the response, using a single-step plan");
+      descriptions = [task];
+    }
+    console.log(`[Plan] Created plan with ${descriptions.length} steps`);
+    return { goal: task, steps: descriptions.map(createPlanStep), revision: 0 };
+  }
+
+  private async revisePlan(plan: AgentPlan, failedStep: PlanStep): Promise<AgentPlan> {
+    const values = {
+      step: failedStep.description,
+      plan: formatPlan(plan),
+      goal: plan.goal,
+      maxSteps: String(MAX_PLAN_STEPS),
+    };
+    const prompt = `${this.renderPrompt("revise", values)}
+
+Respond ONLY with a JSON object, no other text: {"steps": ["next step", "step after that"]}`;
+
+    let descriptions: string[] | null = null;
+    try {
+      const revisionMessages = await this.buildDecisionMessages(prompt);
+      descriptions = parsePlanSteps(await this.callLLM(revisionMessages));
+    } catch (error) {
+      this.rethrowIfAborted(error);
+      console.error("[Plan] Error revising plan:", error);
+    }
+
+    if (!descriptions) {
+      // Keep going with the remaining steps as they are
+      console.warn("[Plan] Could not read a revised plan, keeping the current one");
+      return { ...plan, revision: plan.revision + 1 };
+    }
+
+    // Superseded steps stay visible as skipped so the checklist shows what changed
+    console.log(`[Plan] Revised plan: ${descriptions.length} new steps`);
+    return {
+      ...plan,
+      revision: plan.revision + 1,
+      steps: [
+        ...plan.steps.map(step => (step.status === "pending" ? { ...step, status: "skipped" as const } : step)),
+        ...descriptions.map(createPlanStep),
+      ],
+    };
+  }
+
+  private async *respond(): AsyncGenerator<AgentStep> {
+    yield { step: "respond", message: "Generating response..." };
+    let response = "";
+    for await (const delta of this.generateResponse()) {
+      response += delta;
+      yield { step: "respond", data: { delta } };
+    }
+    yield { step: "respond", data: { response }, message: response };
+  }
+
+  /**
+   * Get approval for the decided tool calls, run the approved ones and record
+   * their results in the history. Returns how many calls succeeded or failed.
+   */
+  private async *runToolCalls(decision: DecisionData, tools: Tool[]): AsyncGenerator<AgentStep, { succeeded: number; failed: number }> {
+    // Let the user approve, edit or reject each call before anything runs
+    const toolCalls: ToolCallRequest[] = [];
+    for (const call of decision.toolCalls || []) {
+      const approvedCall = yield* this.requestApproval(call, tools.find(t => t.name === call.toolName));
+      if (approvedCall) {
+        toolCalls.push(approvedCall);
       }
-      
-      // For o1 models, convert system messages to user messages since they don't support system role
-      if (this.isO1Model) {
-        processedMessages = processedMessages.map(msg => {
-          if (msg._getType() === "system") {
-            // Convert system message to user message with a prefix
-            return new HumanMessage(`[System instruction]: ${msg.content}`);
-          }
-          return msg;
-        });
+    }
+
+    if (toolCalls.length === 0) {
+      // Nothing left to run (rejected or invalid) - the reasons are in the history for the next iteration
+      return { succeeded: 0, failed: 0 };
+    }
+
+    // Execute the approved tools (concurrently, up to maxParallelToolCalls at a time)
+    const toolNames = toolCalls.map(call => call.toolName).join(", ");
+    this.abortSignal?.throwIfAborted();
+    yield { step: "execute", message: `Calling ${toolCalls.length === 1 ? "tool" : "tools"}: ${toolNames}` };
+
+    let failed = 0;
+    for await (const { call, result, durationMs } of this.executeTools(toolCalls)) {
+      const manualName = getManualName(call.toolName, tools.find(t => t.name === call.toolName));
+      yield {
+        step: "execute",
+        data: { toolName: call.toolName, manualName, arguments: call.arguments, result, durationMs },
+        message: `Tool executed: ${call.toolName}`,
+      };
+      if (result && typeof result === "object" && "error" in result) {
+        failed++;
       }
-      
-      const response = await this.llm.invoke(processedMessages);
-      return response.content.toString().trim();
-    } catch (error: any) {
-      console.error("[LLM] Error calling LLM:", error);
+      this.recordToolResult(call, result);
+    }
+    return { succeeded: toolCalls.length - failed, failed };
+  }
+
+  private async *requestUserInput(decision: DecisionData, tools: Tool[]): AsyncGenerator<AgentStep, DecisionData | null> {
+    const request = decision.userInput;
+    if (!request || !this.askUser) {
+      return null;
+    }
+
+    yield { step: "ask_user", data: { request }, message: request.question };
+    const values = await abortable(this.askUser(request), this.abortSignal);
+
+    const fields = Object.keys(request.schema.properties || {}).join(", ");
+    this.messages.push(new AIMessage(`To call ${request.toolName} I asked the user: ${request.question}`));
+    if (!values) {
+      this.messages.push(
+        new HumanMessage(`The user did not provide the requested information (${fields}). Do not guess these values; continue without this tool call or explain what is needed.`)
+      );
+      yield { step: "ask_user", data: { toolName: request.toolName, answered: false }, message: "The user skipped the question" };
+      return null;
+    }
+
+    this.messages.push(new HumanMessage(`The user answered: ${JSON.stringify(values)}`));
+    yield { step: "ask_user", data: { toolName: request.toolName, answered: true, values }, message: "Received your answer" };
+
+    // Validate the completed call just like one chosen by the LLM
+    const args = { ...request.arguments, ...values };
+    const validation = this.validateToolArguments(request.toolName, args, tools);
+    if (!validation.valid) {
+      this.messages.push(
+        new HumanMessage(`Error: The arguments for ${request.toolName} failed validation:\n${validation.error}\nPlease retry the tool call with corrected arguments.`)
+      );
+      return null;
+    }
+    return { action: "call_tool", toolCalls: [{ toolName: request.toolName, arguments: validation.arguments || args }] };
+  }
+
+  /**
+   * Turn an LLM request for user input into an ask_user decision with a form
+   * schema built from the tool's inputs. Falls back to a plain tool call when
+   * there is nothing the user needs to provide.
+   */
+  private createUserInputDecision(
+    toolName: string,
+    knownArguments: Record<string, unknown>,
+    requestedFields: string[],
+    question: string,
+    tools: Tool[]
+  ): DecisionData {
+    const tool = tools.find(t => t.name === toolName);
+    const properties = tool?.inputs?.properties || {};
+    const required = tool?.inputs?.required || [];
+
+    let fields = requestedFields.filter(name => name in properties);
+    if (fields.length === 0) {
+      fields = required.filter(name => knownArguments[name] === undefined);
+    }
+    if (!tool || fields.length === 0) {
+      // Unknown tool or nothing to ask - validation reports what is wrong with the call
+      return { action: "call_tool", toolCalls: [{ toolName, arguments: knownArguments }] };
+    }
+
+    const known = { ...knownArguments };
+    fields.forEach(name => delete known[name]);
+
+    return {
+      action: "ask_user",
+      message: `Asking the user for ${fields.join(", ")}`,
+      userInput: {
+        toolName,
+        question: question || `Please provide ${fields.join(", ")} for ${toolName}`,
+        arguments: known,
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(fields.map(name => [name, properties[name]])),
+          required: fields.filter(name => required.includes(name)),
+        },
+      },
+    };
+  }
+
+  private async *requestApproval(call: ToolCallRequest, tool?: Tool): AsyncGenerator<AgentStep, ToolCallRequest | null> {
+    // Result store tools only read data already in the browser
+    if (!this.approveToolCall || this.resultStore.isBuiltinTool(call.toolName)) {
+      return call;
+    }
+
+    const request: ToolApprovalRequest = {
+      toolName: call.toolName,
+      manualName: getManualName(call.toolName, tool),
+      arguments: call.arguments,
+      callTemplate: tool?.tool_call_template as Record<string, unknown> | undefined,
+    };
+    yield { step: "approve", data: { request }, message: `Checking approval for ${call.toolName}...` };
+
+    const decision = await abortable(this.approveToolCall(request), this.abortSignal);
+    if (decision.approved) {
+      const args = decision.arguments ?? call.arguments;
+      yield { step: "approve", data: { toolName: call.toolName, approved: true, arguments: args }, message: `Approved: ${call.toolName}` };
+      return { toolName: call.toolName, arguments: args };
+    }
+
+    const reason = decision.reason || "No reason given";
+    console.log(`[Approval] Tool call ${call.toolName} rejected: ${reason}`);
+    this.messages.push(
+      new AIMessage(`I wanted to call ${call.toolName} with arguments: ${JSON.stringify(call.arguments)}`),
+      new HumanMessage(`The user rejected this tool call. Reason: ${reason}. Take this into account when deciding what to do next.`)
+    );
+    yield { step: "approve", data: { toolName: call.toolName, approved: false, reason }, message: `Rejected: ${call.toolName}` };
+    return null;
+  }
+
+  private recordToolResult(call: ToolCallRequest, result: unknown): void {
+    // Check if the result is an error
+    if (result && typeof result === "object" && "error" in result) {
+      // Tool execution failed - the error has already been added to messages by executeTool
+      // Continue loop to let LLM try again with corrected parameters
+      console.log(`[Stream] Tool ${call.toolName} failed, continuing loop for retry`);
+      return;
+    }
+
+    // Tool execution succeeded - add result to messages
+    this.messages.push(
+      new AIMessage(`Tool called: ${call.toolName} with arguments: ${JSON.stringify(call.arguments)}`)
+    );
+
+    const resultStr = typeof result === "string" ? result : JSON.stringify(result);
+    
+    if (resultStr.trim() === "") {
+      this.messages.push(
+        new HumanMessage("Result is empty. Try different arguments or a different tool.")
+      );
+    } else {
+      // Keep oversized results out of the prompt; the LLM can page, search or select them by handle
+      const resultTokens = this.tokenCounter.count(resultStr);
+      if (resultTokens > this.config.maxResultTokens && !this.resultStore.isBuiltinTool(call.toolName)) {
+        const stored = this.resultStore.put(call.toolName, result);
+        console.log(`[Stream] Stored large result of ${call.toolName} (~${resultTokens} tokens) as ${stored.handle}`);
+        this.messages.push(
+          new HumanMessage(`Tool result is too large to include directly (about ${resultTokens} tokens), so it was stored as "${stored.handle}". ${this.resultStore.describe(stored.handle)} This is the beginning of the result: ${resultStr.substring(0, 500)}...\nUse the result_store tools (read_page, search, select) with handle "${stored.handle}" to retrieve the parts you need.`)
+        );
+      } else {
+        this.messages.push(
+          new HumanMessage(`Tool result: ${resultStr}`)
+        );
+      }
+    }
+  }
+
+  private rethrowIfAborted(error: unknown): void {
+    // Cancellation must not be swallowed by the per-step error recovery
+    if (this.abortSignal?.aborted) {
+      throw error;
+    }
+  }
+
+  private getModel(phase: LLMPhase): BaseLanguageModel {
+    if (this.fallbackIndex > 0) {
+      return this.fallbackModels[this.fallbackIndex - 1].llm;
+    }
+    return this.phaseModels[phase] || this.llm;
+  }
+
+  private getCapabilities(llm: BaseLanguageModel): ModelCapabilities {
+    const provider = this.fallbackModels.find(fallback => fallback.llm === llm)?.provider ?? this.provider;
+    return getModelCapabilities(provider, getModelName(llm), this.capabilityOverrides);
+  }
+
+  private recordUsage(phase: LLMPhase, llm: BaseLanguageModel, usage: { inputTokens: number; outputTokens: number }): void {
+    if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+      this.pendingUsage.push({ phase, model: getModelName(llm), ...usage });
+    }
+  }
+
+  private *reportModelSwitches(): Generator<AgentStep> {
+    for (const change of this.pendingModelSwitches.splice(0)) {
+      yield {
+        step: "fallback",
+        data: change,
+        message: `${change.from} failed (${LLM_ERROR_CLASS_LABELS[change.errorClass]}), switched to ${change.to}`,
+      };
+    }
+  }
+
+  /**
+   * Handle a failed LLM call according to the retry rule of its error class:
+   * wait and retry on the same model, switch to the next fallback model, or rethrow.
+   * Returns the attempt number for the next try on the (possibly new) current model.
+   */
+  private async recoverFromLLMError(error: unknown, llm: BaseLanguageModel, attempt: number): Promise<number> {
+    if (this.abortSignal?.aborted) {
       throw error;
     }
+    const errorClass = classifyLLMError(error);
+    const rule = this.retryRules[errorClass];
+    const modelName = getModelName(llm);
+
+    if (attempt < rule.retries) {
+      const delay = getRetryDelay(error, rule, attempt);
+      console.warn(`[LLM] ${modelName} failed (${errorClass}), retry ${attempt + 1}/${rule.retries} in ${delay}ms:`, error);
+      await abortable(new Promise(resolve => setTimeout(resolve, delay)), this.abortSignal);
+      return attempt + 1;
+    }
+
+    if (rule.fallback && this.fallbackIndex < this.fallbackModels.length) {
+      const next = this.fallbackModels[this.fallbackIndex++];
+      console.warn(`[LLM] ${modelName} failed (${errorClass}), switching to ${getModelName(next.llm)}:`, error);
+      this.pendingModelSwitches.push({
+        from: modelName,
+        to: getModelName(next.llm),
+        errorClass,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+
+    console.error("[LLM] Error calling LLM:", error);
+    throw error;
+  }
+
+  /**
+   * Run an LLM call on the phase's current model, retrying and falling back on provider errors
+   */
+  private async callWithFallback<T>(phase: LLMPhase, call: (llm: BaseLanguageModel) => Promise<T>): Promise<T> {
+    let attempt = 0;
+    for (;;) {
+      const llm = this.getModel(phase);
+      try {
+        const result = await call(llm);
+        this.lastServedModel = getModelName(llm);
+        return result;
+      } catch (error) {
+        attempt = await this.recoverFromLLMError(error, llm, attempt);
+      }
+    }
+  }
+
+  /**
+   * Prepare the messages for a call and keep the result in the prompt log
+   */
+  private preparePrompt(messages: BaseMessage[], llm: BaseLanguageModel, phase: LLMPhase): BaseMessage[] {
+    const prepared = this.prepareMessages(messages, llm);
+    this.promptLog = [
+      ...this.promptLog.slice(-(MAX_PROMPT_LOG - 1)),
+      { phase, model: getModelName(llm), messages: prepared, timestamp: Date.now() },
+    ];
+    return prepared;
+  }
+
+  private prepareMessages(messages: BaseMessage[], llm: BaseLanguageModel): BaseMessage[] {
+    // First, ensure there is only ONE system message and it's at the top (for ALL models)
+    const systemMessages = messages.filter(msg => msg._getType() === "system");
+    const otherMessages = messages.filter(msg => msg._getType() !== "system");
+    
+    let processedMessages: BaseMessage[] = otherMessages;
+    
+    // Keep only the first system message (consolidate multiple into one)
+    if (systemMessages.length > 0) {
+      processedMessages = [systemMessages[0], ...otherMessages];
+    }
+    
+    // Convert system messages to user messages for models that don't support the system role
+    if (!this.getCapabilities(llm).supportsSystemMessage) {
+      processedMessages = processedMessages.map(msg => {
+        if (msg._getType() === "system") {
+          // Convert system message to user message with a prefix
+          return new HumanMessage(`[System instruction]: ${msg.content}`);
+        }
+        return msg;
+      });
+    }
+    
+    return processedMessages;
+  }
+
+  private async callLLM(messages: BaseMessage[], phase: LLMPhase = "router"): Promise<string> {
+    return this.callWithFallback(phase, async (llm) => {
+      const response = await llm.invoke(this.preparePrompt(messages, llm, phase), { signal: this.abortSignal });
+      this.recordUsage(phase, llm, getTokenUsage(response));
+      return response.content.toString().trim();
+    });
+  }
+
+  private async *callLLMStream(messages: BaseMessage[], phase: LLMPhase = "responder"): AsyncGenerator<string> {
+    let attempt = 0;
+    for (;;) {
+      const llm = this.getModel(phase);
+      let streamedAny = false;
+      // Providers report usage on some of the chunks (e.g. input tokens first, output tokens last)
+      const usage = { inputTokens: 0, outputTokens: 0 };
+      try {
+        const stream = await llm.stream(this.preparePrompt(messages, llm, phase), { signal: this.abortSignal });
+        // Streamed steps are tagged with the model while it is still answering
+        this.lastServedModel = getModelName(llm);
+        for await (const chunk of stream) {
+          const chunkUsage = getTokenUsage(chunk);
+          usage.inputTokens += chunkUsage.inputTokens;
+          usage.outputTokens += chunkUsage.outputTokens;
+          const text = contentToText(chunk?.content ?? chunk);
+          if (text) {
+            streamedAny = true;
+            yield text;
+          }
+        }
+        this.recordUsage(phase, llm, usage);
+        return;
+      } catch (error) {
+        // A partial answer has been shown already - retrying would duplicate it
+        if (streamedAny || this.abortSignal?.aborted) {
+          console.error("[LLM] Error while streaming LLM response:", error);
+          throw error;
+        }
+        if (classifyLLMError(error) === "invalid_request") {
+          // Some models (e.g. early o1 releases) reject streaming requests - retry once without streaming
+          console.warn("[LLM] Streaming failed, falling back to a single invocation:", error);
+          yield await this.callLLM(messages, phase);
+          return;
+        }
+        attempt = await this.recoverFromLLMError(error, llm, attempt);
+      }
+    }
+  }
+
+  private async callLLMWithTools(messages: BaseMessage[], toolDefinitions: ToolDefinition[]): Promise<AIMessageChunk> {
+    return this.callWithFallback("router", async (llm) => {
+      const chatModel = llm as unknown as BaseChatModel;
+      if (!chatModel.bindTools) {
+        throw new Error(`${getModelName(llm)} does not support native tool calling`);
+      }
+      const modelWithTools = chatModel.bindTools(toolDefinitions);
+      const response = await modelWithTools.invoke(this.preparePrompt(messages, llm, "router"), { signal: this.abortSignal });
+      this.recordUsage("router", llm, getTokenUsage(response));
+      return response;
+    });
+  }
+
+  private useNativeTools(): boolean {
+    if (this.config.decisionMode === "json") {
+      return false;
+    }
+    const llm = this.getModel("router");
+    const canBindTools = typeof (llm as unknown as BaseChatModel).bindTools === "function";
+    if (!canBindTools && this.config.decisionMode === "native") {
+      console.warn("[Agent] Native tool calling requested but not supported by this model, using JSON decisions");
+    }
+    // "native" forces tool calling for models the registry doesn't know to support it
+    return canBindTools && (this.config.decisionMode === "native" || this.getCapabilities(llm).supportsNativeTools);
   }
 
   private async analyzeTask(): Promise<string> {
     // Combine system prompts into a single system message
-    const combinedSystemPrompt = `${this.config.systemPrompt}\n\nBased on the conversation history, what is the next step that needs to be accomplished? Respond with a concise next step description. Do not include 'the next step is' just the next step description.`;
+    const combinedSystemPrompt = `${this.config.systemPrompt}\n\n${this.renderPrompt("analyze")}`;
     
     const taskAnalysisMessages: BaseMessage[] = [
       new SystemMessage(combinedSystemPrompt),
@@ -201,8 +1082,10 @@ export class SimplifiedUtcpAgent {
       const response = await this.callLLM(finalMessages);
       const task = response.trim();
       console.log(`[AnalyzeTask] Analyzed task: ${task}`);
+      this.currentTask = task;
       return task;
     } catch (error) {
+      this.rethrowIfAborted(error);
       console.error(`[AnalyzeTask] Error analyzing task:`, error);
       return "Unknown task";
     }
@@ -222,19 +1105,28 @@ export class SimplifiedUtcpAgent {
       tools.forEach((tool) => {
         console.log(`- ${tool.name}: ${tool.description}`);
       });
-      return tools;
+      this.currentTools = [...tools, ...this.getResultStoreTools()];
     } catch (error) {
+      this.rethrowIfAborted(error);
       console.error("[SearchTools] Error searching tools:", error);
-      return [];
+      this.currentTools = this.getResultStoreTools();
     }
+    return this.currentTools;
   }
 
-  private async decideAction(task: string, tools: Tool[], iterationCount: number): Promise<{
-    action: "call_tool" | "respond" | "end";
-    toolName?: string;
-    arguments?: Record<string, any>;
-    message?: string;
-  }> {
+  private getResultStoreTools(): Tool[] {
+    // Only offered once there is something stored to retrieve
+    return this.resultStore.size > 0 ? this.resultStore.getTools() : [];
+  }
+
+  private async decideAction(task: string, tools: Tool[], iterationCount: number): Promise<DecisionData> {
+    this.lastRawDecision = undefined;
+    const decision = await this.chooseAction(task, tools, iterationCount);
+    // Kept for debugging decisions that could not be parsed as intended
+    return this.lastRawDecision === undefined ? decision : { ...decision, raw: this.lastRawDecision };
+  }
+
+  private async chooseAction(task: string, tools: Tool[], iterationCount: number): Promise<DecisionData> {
     // Check iteration limit
     if (iterationCount >= this.config.maxIterations!) {
       console.log(`[DecideAction] Reached max iterations (${this.config.maxIterations}), responding`);
@@ -242,17 +1134,6 @@ export class SimplifiedUtcpAgent {
     }
 
     console.log(`[DecideAction] Iteration ${iterationCount}/${this.config.maxIterations}`);
-
-    const toolsText = tools.length > 0
-      ? JSON.stringify(tools.map(t => ({ 
-          name: t.name, 
-          description: t.description, 
-          inputs: t.inputs,
-          // Add a note about common required parameters based on previous errors
-          note: "Ensure all required parameters are provided. Common required parameters include: country, sources, category, q, pageSize, page, sortBy"
-        })), null, 2)
-      : "No tools available";
-
     console.log(`[DecideAction] Evaluating ${tools.length} available tools`);
 
     // Check if there are recent errors in the conversation that need retry
@@ -262,21 +1143,61 @@ export class SimplifiedUtcpAgent {
       msg.content.toString().includes("required parameter")
     );
 
-    const prompt = `Given the current task: "${task}"
+    const decision = this.useNativeTools()
+      ? await this.decideWithNativeTools(task, tools, hasRecentError)
+      : await this.decideWithJson(task, tools, hasRecentError);
 
-Available tools:
-${toolsText}
+    console.log(`[DecideAction] Agent decision: ${decision.action}`);
+    if (decision.action === "ask_user" && !this.askUser) {
+      console.warn(`[DecideAction] Agent chose 'ask_user' but nobody can answer, responding`);
+      return { action: "respond" };
+    }
+    if (decision.action === "call_tool") {
+      if (!decision.toolCalls || decision.toolCalls.length === 0) {
+        console.warn(`[DecideAction] Agent chose 'call_tool' without any tool calls, responding`);
+        return { action: "respond" };
+      }
 
-Based on the conversation and available tools, decide what to do next:
-1. If you have suitable tools available AND need to use them to accomplish the task, respond with: {"action": "call_tool", "tool_name": "tool.name", "arguments": {"arg1": "value1"}}
-   - IMPORTANT: Include ALL required parameters in the arguments. If you're unsure about required parameters, include common ones like country, sources, category, q, pageSize, page, sortBy as appropriate.
-${hasRecentError ? '   - CRITICAL: There was a recent error about missing parameters. You MUST retry the tool call with the missing parameter included. Do NOT choose "respond".' : ''}
-2. If no suitable tools are available OR you can answer directly, respond with: {"action": "respond"}
+      const validCalls: ToolCallRequest[] = [];
+      const failures: string[] = [];
+      for (const call of decision.toolCalls) {
+        console.log(`[DecideAction] Selected tool: ${call.toolName}`);
+        console.log(`[DecideAction] Tool arguments:`, JSON.stringify(call.arguments, null, 2));
+        
+        // Validate tool arguments before returning
+        const validation = this.validateToolArguments(call.toolName, call.arguments, tools);
+        if (validation.valid) {
+          validCalls.push({ toolName: call.toolName, arguments: validation.arguments || call.arguments });
+          continue;
+        }
 
-IMPORTANT: Even if no tools are available, you should ALWAYS choose "respond" to provide a helpful answer to the user. Never choose "end" unless the user explicitly says goodbye or the conversation is truly finished.
+        if (validation.missing && this.askUser && decision.toolCalls.length === 1) {
+          // Only required parameters are missing - ask the user rather than letting the LLM guess them
+          console.log(`[DecideAction] Asking the user for missing parameters of ${call.toolName}: ${validation.missing.join(", ")}`);
+          return this.createUserInputDecision(call.toolName, call.arguments, validation.missing, "", tools);
+        }
+        
+        console.warn(`[DecideAction] Tool arguments validation failed for ${call.toolName}:\n${validation.error}`);
+        failures.push(call.toolName);
+        // Feed the precise errors back so the next decision can repair the call
+        this.messages.push(
+          new AIMessage(`I attempted to call ${call.toolName} with arguments: ${JSON.stringify(call.arguments)}`),
+          new HumanMessage(`Error: The arguments for ${call.toolName} failed validation:\n${validation.error}\nPlease retry the tool call with corrected arguments.`)
+        );
+      }
+      
+      // Invalid calls are dropped; with none left the loop simply continues so the LLM can retry
+      return {
+        action: "call_tool",
+        toolCalls: validCalls,
+        message: failures.length > 0 ? `Tool argument validation failed: ${failures.join(", ")}` : decision.message,
+      };
+    }
 
-Respond ONLY with the JSON object, no other text.`;
+    return decision;
+  }
 
+  private async buildDecisionMessages(prompt: string): Promise<BaseMessage[]> {
     const decisionPromptMessage = new HumanMessage(prompt);
     let decisionMessages: BaseMessage[] = [...this.messages, decisionPromptMessage];
     
@@ -286,9 +1207,96 @@ Respond ONLY with the JSON object, no other text.`;
       const summarized = await this.summarizeContext();
       decisionMessages = [...summarized, decisionPromptMessage];
     }
+    
+    return decisionMessages;
+  }
+
+  private async decideWithNativeTools(task: string, tools: Tool[], hasRecentError: boolean): Promise<DecisionData> {
+    if (tools.length === 0) {
+      console.log(`[DecideAction] No tools available, responding directly`);
+      return { action: "respond" };
+    }
+
+    const { definitions, nameMap } = utcpToolsToNativeTools(tools);
+    const canAskUser = !!this.askUser && !nameMap.has(ASK_USER_TOOL_NAME);
+
+    const prompt = `${this.renderPrompt("decide", { task, tools: formatToolList(tools) })}
+
+Based on the conversation and the tools available to you, decide what to do next:
+1. If a suitable tool is available AND you need it to accomplish the task, call it. Include ALL required parameters in the arguments.
+   - If several independent calls are needed (e.g. the same tool for different inputs), make them all at once.
+   - Never invent values for required parameters.${canAskUser ? ` If a value is unknown and cannot be inferred from the conversation, call ${ASK_USER_TOOL_NAME} instead.` : ""}
+${hasRecentError ? '   - CRITICAL: There was a recent error about missing parameters. You MUST retry the tool call with the missing parameter included.' : ''}
+2. If no suitable tool is available OR you can answer directly, do not call any tool and reply with a short note instead.`;
 
     try {
+      const decisionMessages = await this.buildDecisionMessages(prompt);
+      const response = await this.callLLMWithTools(
+        decisionMessages,
+        canAskUser ? [...definitions, ASK_USER_TOOL] : definitions
+      );
+      this.lastRawDecision = { content: response.content, tool_calls: response.tool_calls };
+      
+      const nativeCalls = response.tool_calls || [];
+      if (nativeCalls.length === 0) {
+        console.log(`[DecideAction] Model made no tool call, responding`);
+        return { action: "respond" };
+      }
+
+      const askCall = canAskUser ? nativeCalls.find(toolCall => toolCall.name === ASK_USER_TOOL_NAME) : undefined;
+      if (askCall) {
+        const args = askCall.args || {};
+        return this.createUserInputDecision(
+          String(args.tool_name),
+          args.known_arguments || {},
+          Array.isArray(args.missing_parameters) ? args.missing_parameters.map(String) : [],
+          String(args.question || ""),
+          tools
+        );
+      }
+
+      return {
+        action: "call_tool",
+        toolCalls: nativeCalls.map(toolCall => ({
+          toolName: nameMap.get(toolCall.name) || toolCall.name,
+          arguments: toolCall.args || {},
+        })),
+      };
+    } catch (error) {
+      this.rethrowIfAborted(error);
+      // Some providers reject particular tool schemas - fall back to the JSON path
+      console.warn(`[DecideAction] Native tool calling failed, falling back to JSON decision:`, error);
+      return this.decideWithJson(task, tools, hasRecentError);
+    }
+  }
+
+  private async decideWithJson(task: string, tools: Tool[], hasRecentError: boolean): Promise<DecisionData> {
+    const toolsText = tools.length > 0
+      ? JSON.stringify(tools.map(t => ({ 
+          name: t.name, 
+          description: t.description, 
+          inputs: t.inputs,
+        })), null, 2)
+      : "No tools available";
+
+    const prompt = `${this.renderPrompt("decide", { task, tools: toolsText })}
+
+Based on the conversation and available tools, decide what to do next:
+1. If you have suitable tools available AND need to use them to accomplish the task, respond with: {"action": "call_tool", "tool_calls": [{"tool_name": "tool.name", "arguments": {"arg1": "value1"}}]}
+   - If several independent calls are needed (e.g. the same tool for different inputs), list them all in "tool_calls".
+   - IMPORTANT: Include ALL required parameters in the arguments. Never invent values for required parameters.
+${hasRecentError ? '   - CRITICAL: There was a recent error about missing parameters. You MUST retry the tool call with the missing parameter included. Do NOT choose "respond".' : ''}
+2. If no suitable tools are available OR you can answer directly, respond with: {"action": "respond"}
+${this.askUser ? `3. If a required parameter is unknown and cannot be inferred from the conversation, ask the user with: {"action": "ask_user", "tool_name": "tool.name", "missing_parameters": ["param"], "question": "short question", "arguments": {"known_param": "value"}}
+` : ""}
+IMPORTANT: Even if no tools are available, you should ALWAYS choose "respond" to provide a helpful answer to the user. Never choose "end" unless the user explicitly says goodbye or the conversation is truly finished.
+
+Respond ONLY with the JSON object, no other text.`;
+
+    try {
+      const decisionMessages = await this.buildDecisionMessages(prompt);
       const response = await this.callLLM(decisionMessages);
+      this.lastRawDecision = response;
       
       console.log(`[DecideAction] Raw LLM response:`, response);
       
@@ -353,85 +1361,136 @@ Respond ONLY with the JSON object, no other text.`;
         console.log(`[DecideAction] Extracted JSON string:`, jsonStr);
         const decision = JSON.parse(jsonStr);
         console.log(`[DecideAction] Parsed decision object:`, JSON.stringify(decision, null, 2));
-        let action = decision.action || "respond";
         
         // Safety: Convert "end" to "respond" if we haven't provided a proper response yet
         // "end" should only be used when user explicitly ends conversation
-        if (action === "end") {
-          console.warn(`[DecideAction] Agent chose 'end', converting to 'respond' to provide an answer`);
-          action = "respond";
+        if (!decision.action || decision.action === "end") {
+          if (decision.action === "end") {
+            console.warn(`[DecideAction] Agent chose 'end', converting to 'respond' to provide an answer`);
+          }
           decision.action = "respond";
         }
         
-        // Normalize tool_name to toolName
-        if (decision.tool_name) {
-          decision.toolName = decision.tool_name;
-        }
-
-        console.log(`[DecideAction] Agent decision: ${action}`);
-        if (action === "call_tool") {
-          console.log(`[DecideAction] Selected tool: ${decision.toolName}`);
-          console.log(`[DecideAction] Tool arguments:`, JSON.stringify(decision.arguments, null, 2));
-          
-          // Validate tool arguments before returning
-          const validation = this.validateToolArguments(decision.toolName, decision.arguments || {}, tools);
-          if (!validation.valid) {
-            console.warn(`[DecideAction] Tool arguments validation failed: ${validation.error}`);
-            // Instead of responding, add error to messages and loop again
-            this.messages.push(
-              new AIMessage(`I attempted to call ${decision.toolName} but encountered an error: ${validation.error}. Let me try again with the correct parameters.`)
-            );
-            return { action: "respond", message: `Tool argument validation failed: ${validation.error}` };
-          }
+        if (decision.action === "ask_user") {
+          return this.createUserInputDecision(
+            String(decision.tool_name || decision.toolName),
+            decision.arguments || {},
+            Array.isArray(decision.missing_parameters) ? decision.missing_parameters.map(String) : [],
+            String(decision.question || ""),
+            tools
+          );
         }
+        
+        // Normalize tool_calls / single tool_name into toolCalls
+        const rawCalls = Array.isArray(decision.tool_calls)
+          ? decision.tool_calls
+          : decision.tool_name || decision.toolName
+            ? [decision]
+            : [];
 
-        return decision;
-      } catch (jsonError) {
+        return {
+          action: decision.action,
+          message: decision.message,
+          toolCalls: decision.action === "call_tool"
+            ? rawCalls.map((call: Record<string, unknown>) => ({
+                toolName: String(call.tool_name || call.toolName),
+                arguments: (call.arguments as Record<string, unknown>) || {},
+              }))
+            : undefined,
+        };
+      } catch {
         console.warn(`[DecideAction] Could not parse decision JSON: ${response}`);
         return { action: "respond", message: response };
       }
     } catch (error) {
+      this.rethrowIfAborted(error);
       console.error(`[DecideAction] Error making decision:`, error);
       return { action: "respond", message: `I encountered an error: ${error}` };
     }
   }
 
-  private validateToolArguments(toolName: string, args: Record<string, any>, tools: Tool[]): { valid: boolean; error?: string } {
+  private validateToolArguments(
+    toolName: string,
+    args: Record<string, any>,
+    tools: Tool[]
+  ): { valid: boolean; error?: string; arguments?: Record<string, any>; missing?: string[] } {
     const tool = tools.find(t => t.name === toolName);
     if (!tool) {
-      return { valid: false, error: `Tool ${toolName} not found` };
+      return { valid: false, error: `Tool ${toolName} does not exist. Available tools: ${tools.map(t => t.name).join(", ") || "none"}` };
     }
 
-    if (!tool.inputs) {
-      return { valid: true };
+    if (!tool.inputs || Object.keys(tool.inputs).length === 0) {
+      return { valid: true, arguments: args };
     }
 
-    // Check for required parameters
-    try {
-      const inputs = tool.inputs as unknown as any[];
-      if (Array.isArray(inputs)) {
-        const requiredParams = inputs.filter((input: any) => input.required === true).map((input: any) => input.name);
-        const missingParams = requiredParams.filter((param: string) => !(param in args));
+    // Validate against the tool's JSON Schema, coercing values where it is safe ("5" -> 5)
+    const validation = validateJsonSchema(args, tool.inputs);
+    if (!validation.valid) {
+      // Set when the only problem is missing top-level required parameters
+      const missingOnly = validation.errors.every(e => e.message === MISSING_PARAMETER_MESSAGE && e.path.lastIndexOf("/") === 0);
+      return {
+        valid: false,
+        error: formatValidationErrors(validation.errors),
+        missing: missingOnly ? validation.errors.map(e => e.path.substring(1)) : undefined,
+      };
+    }
 
-        if (missingParams.length > 0) {
-          return { valid: false, error: `Missing required parameters: ${missingParams.join(", ")}` };
-        }
-      }
-    } catch (e) {
-      // If we can't validate, allow it to proceed
-      console.warn(`[ValidateToolArguments] Could not validate tool inputs for ${toolName}`);
+    return { valid: true, arguments: validation.value as Record<string, any> };
+  }
+
+  private async *executeTools(toolCalls: ToolCallRequest[]): AsyncGenerator<{ call: ToolCallRequest; result: unknown; durationMs: number }> {
+    const limit = Math.max(1, this.config.maxParallelToolCalls);
+    const pending = new Map<number, Promise<{ index: number; call: ToolCallRequest; result: unknown; durationMs: number }>>();
+    let nextIndex = 0;
+
+    const launchNext = () => {
+      const index = nextIndex++;
+      const call = toolCalls[index];
+      const startedAt = performance.now();
+      pending.set(
+        index,
+        this.executeTool(call.toolName, call.arguments).then(result => ({
+          index,
+          call,
+          result,
+          durationMs: Math.round(performance.now() - startedAt),
+        }))
+      );
+    };
+
+    while (nextIndex < toolCalls.length && pending.size < limit) {
+      launchNext();
     }
 
-    return { valid: true };
+    // Yield results in completion order, topping up the pool as calls finish
+    while (pending.size > 0) {
+      const completed = await Promise.race(pending.values());
+      pending.delete(completed.index);
+      if (nextIndex < toolCalls.length) {
+        launchNext();
+      }
+      yield { call: completed.call, result: completed.result, durationMs: completed.durationMs };
+    }
   }
 
   private async executeTool(toolName: string, args: Record<string, any>): Promise<any> {
     console.log(`[ExecuteTools] Executing tool: ${toolName}`);
     console.log(`[ExecuteTools] Arguments type:`, typeof args, Array.isArray(args) ? '(array)' : '(object)');
     console.log(`[ExecuteTools] Arguments:`, JSON.stringify(args, null, 2));
+
+    if (this.resultStore.isBuiltinTool(toolName)) {
+      try {
+        return this.resultStore.callTool(toolName, args);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[ExecuteTools] Error executing tool ${toolName}:`, error);
+        this.messages.push(new HumanMessage(`Error: ${toolName} failed: ${errorMsg}`));
+        return { error: errorMsg };
+      }
+    }
     
     try {
-      const result = await this.utcpClient.callTool(toolName, args);
+      const result = await abortable(this.utcpClient.callTool(toolName, args), this.abortSignal);
       
       const resultPreview = typeof result === "string" && result.length > 100
         ? result.substring(0, 100) + "..."
@@ -440,6 +1499,7 @@ Respond ONLY with the JSON object, no other text.`;
       
       return result;
     } catch (error: any) {
+      this.rethrowIfAborted(error);
       const errorMsg = error.message || String(error);
       console.error(`[ExecuteTools] Error executing tool ${toolName}:`, error);
       
@@ -476,12 +1536,15 @@ Respond ONLY with the JSON object, no other text.`;
     }
   }
 
-  private async generateResponse(): Promise<string> {
+  private async *generateResponse(): AsyncGenerator<string> {
     console.log("[Respond] Generating response based on conversation history");
 
     // Check if the user's last message contains specific instructions
     const lastUserMessage = this.getLastUserMessage();
-    let responsePrompt = "Based on the conversation history, provide a helpful summary response to the user.\n\nIf tools were called and results obtained, summarize what was accomplished and provide the relevant information from the tool results.\nIf no tools were needed, provide a direct helpful response.\n\nBe concise and helpful.";
+    let responsePrompt = this.renderPrompt("respond", {
+      task: this.currentTask,
+      tools: formatToolList(this.currentTools),
+    });
 
     // Check for specific user instructions
     if (lastUserMessage) {
@@ -507,14 +1570,18 @@ Respond ONLY with the JSON object, no other text.`;
       responseMessages = [...summarized, responsePromptMessage];
     }
 
+    let response = "";
     try {
-      const response = await this.callLLM(responseMessages);
+      for await (const delta of this.callLLMStream(responseMessages)) {
+        response += delta;
+        yield delta;
+      }
       const preview = response.length > 100 ? response.substring(0, 100) + "..." : response;
       console.log(`[Respond] Generated response: ${preview}`);
-      return response;
     } catch (error) {
+      this.rethrowIfAborted(error);
       console.error(`[Respond] Error generating response:`, error);
-      return `I encountered an error generating the response: ${error}`;
+      yield `${response ? "\n\n" : ""}I encountered an error generating the response: ${error}`;
     }
   }
 
@@ -529,9 +1596,10 @@ Respond ONLY with the JSON object, no other text.`;
   }
 
   private estimateTokenCount(messages: BaseMessage[]): number {
-    const totalChars = messages.reduce((sum, msg) => sum + msg.content.toString().length, 0);
-    // Rough approximation: 1 token ≈ 4 characters
-    return Math.floor(totalChars / 4);
+    return messages.reduce(
+      (sum, msg) => sum + TOKENS_PER_MESSAGE + this.tokenCounter.count(contentToText(msg.content)),
+      0
+    );
   }
 
   private async summarizeContext(): Promise<BaseMessage[]> {
@@ -548,27 +1616,17 @@ Respond ONLY with the JSON object, no other text.`;
     const recentMessages = nonSystemMessages.slice(-recentCount);
 
     // Create summarization prompt
-    const conversationText = messagesToSummarize
-      .map((msg) => {
-        const role = msg._getType() === "human" ? "Human" : "Assistant";
-        return `${role}: ${msg.content}`;
-      })
-      .join("\n");
-
-    const summarizationPrompt = `Please summarize the following conversation history concisely, preserving key information, decisions made, and context:
-
-${conversationText}
-
-Provide a concise summary that captures the essential points and context.`;
+    const summarizationPrompt = this.renderPrompt("summarize", { history: formatConversation(messagesToSummarize) });
 
     try {
-      const summary = await this.callLLM([new HumanMessage(summarizationPrompt)]);
+      const summary = await this.callLLM([new HumanMessage(summarizationPrompt)], "summarizer");
       const summaryMessage = new HumanMessage(`Conversation summary: ${summary}`);
 
       console.log(`[SummarizeContext] Summarized ${messagesToSummarize.length} messages`);
 
       return [...systemMessages, summaryMessage, ...recentMessages];
     } catch (error) {
+      this.rethrowIfAborted(error);
       console.error(`[SummarizeContext] Error summarizing history:`, error);
       return [...systemMessages, ...recentMessages];
     }
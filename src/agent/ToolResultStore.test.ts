@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { RESULT_STORE_MANUAL, ToolResultStore } from "./ToolResultStore";
+
+const PAGE_TOOL = `${RESULT_STORE_MANUAL}.read_page`;
+const SEARCH_TOOL = `${RESULT_STORE_MANUAL}.search`;
+const SELECT_TOOL = `${RESULT_STORE_MANUAL}.select`;
+
+const items = Array.from({ length: 30 }, (_, index) => ({
+  id: index + 1,
+  name: `Item ${index + 1}`,
+  status: index % 3 === 0 ? "open" : "closed",
+}));
+
+describe("ToolResultStore", () => {
+  it("stores results under new handles and parses JSON strings", () => {
+    const store = new ToolResultStore(100);
+    const first = store.put("search.items", JSON.stringify(items));
+    const second = store.put("docs.read", "plain text");
+    expect(first.handle).toBe("result_1");
+    expect(second.handle).toBe("result_2");
+    expect(first.data).toEqual(items);
+    expect(second.data).toBe("plain text");
+    expect(store.size).toBe(2);
+  });
+
+  it("describes the shape of a stored result", () => {
+    const store = new ToolResultStore(100);
+    const { handle } = store.put("search.items", items);
+    expect(store.describe(handle)).toMatch(/^JSON array with 30 items \(\d+ pages\)\. Items have keys: id, name, status\.$/);
+  });
+
+  it("reads the text page by page", () => {
+    const store = new ToolResultStore(50);
+    const stored = store.put("docs.read", "x".repeat(120));
+    const pages = [1, 2, 3].map((page) => store.callTool(PAGE_TOOL, { handle: stored.handle, page }) as { content: string; totalPages: number });
+    expect(pages.map((page) => page.content.length)).toEqual([50, 50, 20]);
+    expect(pages[0].totalPages).toBe(3);
+    expect(pages.map((page) => page.content).join("")).toBe(stored.text);
+    expect(() => store.callTool(PAGE_TOOL, { handle: stored.handle, page: 4 })).toThrow(/out of range; result_1 has 3 pages/);
+  });
+
+  it("uses a changed page size for later pages", () => {
+    const store = new ToolResultStore(50);
+    const stored = store.put("docs.read", "x".repeat(120));
+    store.setPageSize(100);
+    expect(store.callTool(PAGE_TOOL, { handle: stored.handle, page: 1 })).toMatchObject({ totalPages: 2 });
+  });
+
+  it("searches JSON keys and values and reports their paths", () => {
+    const store = new ToolResultStore(1000);
+    const { handle } = store.put("search.items", { items, "total count": 30 });
+    expect(store.callTool(SEARCH_TOOL, { handle, query: "ITEM 12" })).toEqual({
+      handle,
+      query: "ITEM 12",
+      totalMatches: 1,
+      matches: [{ path: "$.items[11].name", value: "Item 12" }],
+    });
+    expect(store.callTool(SEARCH_TOOL, { handle, query: "total" })).toMatchObject({
+      matches: [{ path: "$['total count']", value: 30 }],
+    });
+  });
+
+  it("limits the search matches but counts all of them", () => {
+    const store = new ToolResultStore(1000);
+    const { handle } = store.put("search.items", items);
+    const result = store.callTool(SEARCH_TOOL, { handle, query: "closed", max_matches: 5 }) as { totalMatches: number; matches: unknown[] };
+    expect(result.totalMatches).toBe(20);
+    expect(result.matches).toHaveLength(5);
+  });
+
+  it("searches text results line by line", () => {
+    const store = new ToolResultStore(1000);
+    const { handle } = store.put("docs.read", "first line\nSecond match\nthird\nlast match");
+    expect(store.callTool(SEARCH_TOOL, { handle, query: "match" })).toMatchObject({
+      totalMatches: 2,
+      matches: [{ line: 2, text: "Second match" }, { line: 4, text: "last match" }],
+    });
+  });
+
+  it("selects with JSONPath and stores selections that are too large", () => {
+    const store = new ToolResultStore(200);
+    const { handle } = store.put("search.items", items);
+    expect(store.callTool(SELECT_TOOL, { handle, path: "$[0:2].id" })).toEqual({ handle, path: "$[0:2].id", count: 2, matches: [1, 2] });
+
+    const large = store.callTool(SELECT_TOOL, { handle, path: "$[?(@.status == 'closed')]" }) as { handle: string; count: number };
+    expect(large.handle).toBe("result_2");
+    expect(large.count).toBe(20);
+    expect(store.size).toBe(2);
+  });
+
+  it("names the available handles when a handle is unknown", () => {
+    const store = new ToolResultStore(100);
+    store.put("search.items", items);
+    expect(() => store.callTool(PAGE_TOOL, { handle: "result_9", page: 1 })).toThrow('No stored result with handle "result_9". Available handles: result_1');
+  });
+});
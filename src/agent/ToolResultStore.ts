@@ -0,0 +1,255 @@
+/**
+ * Tool Result Store
+ *
+ * Keeps oversized tool results out of the prompt. Each stored result gets a
+ * handle (e.g. "result_1") and the agent is given built-in tools to page
+ * through, search within, or JSONPath-select parts of it.
+ */
+
+import type { JsonSchema, Tool } from "@utcp/sdk";
+import { queryJsonPath } from "@/utils/jsonPath";
+
+export interface StoredToolResult {
+  handle: string;
+  toolName: string;
+  /** Parsed JSON value, or the raw string for non-JSON results */
+  data: unknown;
+  /** Pretty-printed text used for paging and text search */
+  text: string;
+  createdAt: number;
+}
+
+export const RESULT_STORE_MANUAL = "result_store";
+
+const PAGE_TOOL = `${RESULT_STORE_MANUAL}.read_page`;
+const SEARCH_TOOL = `${RESULT_STORE_MANUAL}.search`;
+const SELECT_TOOL = `${RESULT_STORE_MANUAL}.select`;
+
+const MAX_SEARCH_MATCHES = 50;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatPathKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `['${key.replace(/'/g, "\\'")}']`;
+}
+
+function builtinTool(name: string, description: string, inputs: JsonSchema): Tool {
+  return {
+    name,
+    description,
+    inputs,
+    outputs: { type: "object" },
+    tags: ["result", "large", "page", "search", "jsonpath"],
+    tool_call_template: { name: RESULT_STORE_MANUAL, call_template_type: "builtin" },
+  };
+}
+
+export class ToolResultStore {
+  private results = new Map<string, StoredToolResult>();
+  private nextId = 1;
+  private pageSize: number;
+
+  /**
+   * @param pageSize Characters returned per page; keep it below the agent's inline result limit
+   */
+  constructor(pageSize: number) {
+    this.pageSize = pageSize;
+  }
+
+  /**
+   * Pages read afterwards use the new size, e.g. after the agent's result limit changed
+   */
+  setPageSize(pageSize: number): void {
+    this.pageSize = pageSize;
+  }
+
+  get size(): number {
+    return this.results.size;
+  }
+
+  put(toolName: string, result: unknown): StoredToolResult {
+    let data = result;
+    if (typeof result === "string") {
+      try {
+        data = JSON.parse(result);
+      } catch {
+        // Plain text result
+      }
+    }
+
+    const stored: StoredToolResult = {
+      handle: `result_${this.nextId++}`,
+      toolName,
+      data,
+      text: typeof data === "string" ? data : JSON.stringify(data, null, 2),
+      createdAt: Date.now(),
+    };
+    this.results.set(stored.handle, stored);
+    return stored;
+  }
+
+  clear(): void {
+    this.results.clear();
+  }
+
+  /**
+   * One-line description of a stored result's shape, to help the LLM pick a retrieval strategy
+   */
+  describe(handle: string): string {
+    const { data, text } = this.get(handle);
+    const pages = Math.ceil(text.length / this.pageSize);
+    if (Array.isArray(data)) {
+      const first = data.find(isPlainObject);
+      const keys = first ? ` Items have keys: ${Object.keys(first).slice(0, 20).join(", ")}.` : "";
+      return `JSON array with ${data.length} items (${pages} pages).${keys}`;
+    }
+    if (isPlainObject(data)) {
+      const keys = Object.entries(data)
+        .slice(0, 20)
+        .map(([key, value]) => (Array.isArray(value) ? `${key} (array of ${value.length})` : key));
+      return `JSON object (${pages} pages) with keys: ${keys.join(", ")}.`;
+    }
+    return `Text with ${text.split("\n").length} lines (${pages} pages).`;
+  }
+
+  /**
+   * Built-in tool definitions, offered to the LLM alongside the UTCP tools while results are stored
+   */
+  getTools(): Tool[] {
+    const handle: JsonSchema = {
+      type: "string",
+      description: `Handle of a stored result, e.g. "result_1"`,
+    };
+    return [
+      builtinTool(
+        PAGE_TOOL,
+        `Read one page (${this.pageSize} characters) of a large stored tool result.`,
+        {
+          type: "object",
+          properties: {
+            handle,
+            page: { type: "integer", minimum: 1, description: "Page number, starting at 1" },
+          },
+          required: ["handle", "page"],
+        }
+      ),
+      builtinTool(
+        SEARCH_TOOL,
+        "Search a large stored tool result for text (case-insensitive). For JSON results returns the JSONPath and value of each match; otherwise the matching lines.",
+        {
+          type: "object",
+          properties: {
+            handle,
+            query: { type: "string", minLength: 1, description: "Text to search for in keys and values" },
+            max_matches: { type: "integer", minimum: 1, maximum: MAX_SEARCH_MATCHES, description: "Maximum number of matches to return (default 20)" },
+          },
+          required: ["handle", "query"],
+        }
+      ),
+      builtinTool(
+        SELECT_TOOL,
+        "Select parts of a large stored JSON tool result with a JSONPath expression, e.g. $.items[0:5], $.items[*].name, $..id or $.items[?(@.status == 'open')].",
+        {
+          type: "object",
+          properties: {
+            handle,
+            path: { type: "string", minLength: 1, description: "JSONPath expression" },
+          },
+          required: ["handle", "path"],
+        }
+      ),
+    ];
+  }
+
+  isBuiltinTool(toolName: string): boolean {
+    return toolName === PAGE_TOOL || toolName === SEARCH_TOOL || toolName === SELECT_TOOL;
+  }
+
+  /**
+   * Run one of the built-in tools. Throws with a readable message on bad input.
+   */
+  callTool(toolName: string, args: Record<string, unknown>): unknown {
+    const stored = this.get(String(args.handle));
+    switch (toolName) {
+      case PAGE_TOOL:
+        return this.readPage(stored, Number(args.page) || 1);
+      case SEARCH_TOOL:
+        return this.search(stored, String(args.query), Number(args.max_matches) || 20);
+      case SELECT_TOOL: {
+        const matches = queryJsonPath(stored.data, String(args.path));
+        if (JSON.stringify(matches).length > this.pageSize) {
+          // Too big to return inline - store the selection so it can be paged or narrowed further
+          const selection = this.put(SELECT_TOOL, matches);
+          return {
+            handle: selection.handle,
+            path: args.path,
+            count: matches.length,
+            note: `The selection is too large to return directly and was stored as ${selection.handle}: ${this.describe(selection.handle)} Narrow the path or read it page by page.`,
+          };
+        }
+        return { handle: stored.handle, path: args.path, count: matches.length, matches };
+      }
+      default:
+        throw new Error(`Unknown result store tool: ${toolName}`);
+    }
+  }
+
+  private get(handle: string): StoredToolResult {
+    const stored = this.results.get(handle);
+    if (!stored) {
+      const available = [...this.results.keys()].join(", ") || "none";
+      throw new Error(`No stored result with handle "${handle}". Available handles: ${available}`);
+    }
+    return stored;
+  }
+
+  private readPage(stored: StoredToolResult, page: number) {
+    const totalPages = Math.max(1, Math.ceil(stored.text.length / this.pageSize));
+    if (page > totalPages) {
+      throw new Error(`Page ${page} is out of range; ${stored.handle} has ${totalPages} pages`);
+    }
+    const start = (page - 1) * this.pageSize;
+    return {
+      handle: stored.handle,
+      page,
+      totalPages,
+      content: stored.text.substring(start, start + this.pageSize),
+    };
+  }
+
+  private search(stored: StoredToolResult, query: string, maxMatches: number) {
+    const needle = query.toLowerCase();
+    const limit = Math.min(maxMatches, MAX_SEARCH_MATCHES);
+    const matches: unknown[] = [];
+    let total = 0;
+
+    if (typeof stored.data === "string") {
+      stored.text.split("\n").forEach((line, index) => {
+        if (line.toLowerCase().includes(needle) && total++ < limit) {
+          matches.push({ line: index + 1, text: line.length > 300 ? `${line.substring(0, 300)}...` : line });
+        }
+      });
+    } else {
+      const visit = (value: unknown, path: string, key?: string) => {
+        const keyMatches = key !== undefined && key.toLowerCase().includes(needle);
+        const isLeaf = value === null || typeof value !== "object";
+        if (keyMatches || (isLeaf && String(value).toLowerCase().includes(needle))) {
+          if (total++ < limit) {
+            const text = JSON.stringify(value);
+            matches.push({ path, value: text.length > 300 ? `${text.substring(0, 300)}...` : value });
+          }
+        }
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => visit(item, `${path}[${index}]`));
+        } else if (isPlainObject(value)) {
+          Object.entries(value).forEach(([childKey, child]) => visit(child, `${path}${formatPathKey(childKey)}`, childKey));
+        }
+      };
+      visit(stored.data, "$");
+    }
+
+    return { handle: stored.handle, query, totalMatches: total, matches };
+  }
+}
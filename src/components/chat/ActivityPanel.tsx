@@ -0,0 +1,163 @@
+/**
+ * Activity Panel Component
+ * Timeline of the agent's steps: live while a run streams, afterwards for any past response
+ */
+
+import { useEffect, useState, type ReactNode } from "react";
+import { useChatStore } from "@/stores/chatStore";
+import type { AgentActivity, AgentStepName } from "@/types/agent.types";
+import { cn } from "@/lib/utils";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { JsonTree } from "./JsonTree";
+import { Activity, ChevronDown, ChevronRight, Loader2, X } from "lucide-react";
+
+const STEP_LABELS: Record<AgentStepName, string> = {
+  analyze: "Analyze",
+  search: "Search tools",
+  plan: "Plan",
+  plan_step: "Plan step",
+  decide: "Decide",
+  ask_user: "Ask user",
+  approve: "Approval",
+  execute: "Execute",
+  respond: "Respond",
+  fallback: "Fallback",
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function Details({ label, children }: { label: string; children: ReactNode }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-1">
+      <CollapsibleTrigger className="flex items-center text-xs text-muted-foreground hover:text-foreground">
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        {label}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1">{children}</CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function ActivityEntry({ entry, now }: { entry: AgentActivity; now: number }) {
+  const running = entry.completedAt === undefined;
+  const latency = (entry.completedAt ?? now) - entry.startedAt;
+
+  return (
+    <div className="relative pl-4 pb-3 border-l last:border-l-transparent">
+      <span
+        className={cn(
+          "absolute -left-[5px] top-1 h-2.5 w-2.5 rounded-full",
+          running ? "bg-primary animate-pulse" : "bg-muted-foreground"
+        )}
+      />
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium">{STEP_LABELS[entry.step] ?? entry.step}</span>
+        <span className="text-muted-foreground">{formatTime(entry.startedAt)}</span>
+        <Badge variant="outline" className="ml-auto text-xs font-normal">
+          {running && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {formatLatency(Math.max(0, Math.round(latency)))}
+        </Badge>
+      </div>
+      {entry.message && entry.step !== "analyze" && (
+        <p className="text-xs text-muted-foreground break-words">{entry.message}</p>
+      )}
+      {entry.model && <p className="text-xs text-muted-foreground font-mono">{entry.model}</p>}
+      {entry.task && <p className="text-xs mt-1 break-words">{entry.task}</p>}
+      {entry.tools && entry.tools.length > 0 && (
+        <ol className="mt-1 space-y-0.5 text-xs list-decimal list-inside">
+          {entry.tools.map((tool) => (
+            <li key={tool.name} className="truncate" title={tool.description}>
+              <span className="font-mono">{tool.name}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {entry.decision && (
+        <Details label="Decision JSON">
+          <JsonTree value={entry.decision} defaultExpandDepth={2} />
+        </Details>
+      )}
+      {entry.rawDecision !== undefined && (
+        <Details label="Raw LLM response">
+          {typeof entry.rawDecision === "string" ? (
+            <pre className="text-xs whitespace-pre-wrap break-words max-h-60 overflow-y-auto">{entry.rawDecision}</pre>
+          ) : (
+            <JsonTree value={entry.rawDecision} defaultExpandDepth={2} />
+          )}
+        </Details>
+      )}
+    </div>
+  );
+}
+
+export function ActivityPanel() {
+  const {
+    messages,
+    isStreaming,
+    currentActivity,
+    activityMessageId,
+    agentMetadata,
+    setActivityPanelOpen,
+  } = useChatStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the latency of running steps ticking
+  useEffect(() => {
+    if (!isStreaming) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [isStreaming]);
+
+  const selectedMessage = activityMessageId ? messages.find(message => message.id === activityMessageId) : undefined;
+  const latestMessage = [...messages].reverse().find(message => message.activity?.length);
+  const isLive = !selectedMessage && isStreaming;
+  const activity = selectedMessage?.activity ?? (isLive ? currentActivity : latestMessage?.activity) ?? [];
+
+  return (
+    <aside className="w-80 border-l flex flex-col">
+      <div className="p-3 border-b flex items-center gap-2">
+        <Activity className="h-4 w-4" />
+        <span className="font-semibold text-sm">Activity</span>
+        {isLive ? (
+          <Badge className="text-xs">Live</Badge>
+        ) : (
+          activity.length > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {formatTime(activity[0].startedAt)}
+            </span>
+          )
+        )}
+        <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto" onClick={() => setActivityPanelOpen(false)} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {isLive && agentMetadata.currentTask && (
+        <p className="px-3 py-2 text-xs border-b break-words">
+          <span className="text-muted-foreground">Task: </span>
+          {agentMetadata.currentTask}
+        </p>
+      )}
+      <ScrollArea className="flex-1">
+        <div className="p-3 pl-5">
+          {activity.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No agent activity yet</p>
+          ) : (
+            activity.map((entry) => <ActivityEntry key={entry.id} entry={entry} now={now} />)
+          )}
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
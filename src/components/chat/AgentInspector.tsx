@@ -0,0 +1,277 @@
+/**
+ * Agent Inspector Component
+ * Debug view of the agent's internal message history and the exact prompts it sent,
+ * with editing and deleting of history entries and re-running the last turn
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { BaseMessage } from "@langchain/core/messages";
+import { mapChatMessagesToStoredMessages, mapStoredMessageToChatMessage } from "@langchain/core/messages";
+import type { SimplifiedUtcpAgent } from "@/agent/SimplifiedUtcpAgent";
+import type { LLMPromptRecord } from "@/types/agent.types";
+import type { Message } from "@/types/chat.types";
+import { isUserTurnMessage } from "@/utils/messageConverter";
+import { useChatStore } from "@/stores/chatStore";
+import { useConversationStore } from "@/stores/conversationStore";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { JsonTree } from "./JsonTree";
+import { ChevronDown, ChevronRight, Pencil, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+
+interface AgentInspectorProps {
+  agent: SimplifiedUtcpAgent | null;
+  onRerunLastTurn: () => void;
+}
+
+type InspectorView = "history" | "prompts";
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === "string" ? message.content : JSON.stringify(message.content, null, 2);
+}
+
+/**
+ * Copy of a message with other content; tool calls and other fields are kept
+ */
+function withContent(message: BaseMessage, content: string): BaseMessage {
+  const [stored] = mapChatMessagesToStoredMessages([message]);
+  return mapStoredMessageToChatMessage({ ...stored, data: { ...stored.data, content } });
+}
+
+/**
+ * The chat with an edit (new content) or deletion (null) of the n-th user turn
+ * of the history applied to the n-th user message. A deleted turn takes the
+ * replies after it along.
+ */
+function applyTurnChange(messages: Message[], turn: number, content: string | null): Message[] {
+  const userIndexes = messages.flatMap((message, i) => (message.role === "user" ? [i] : []));
+  const start = userIndexes[turn];
+  if (content !== null) {
+    return messages.map((message, i) => (i === start ? { ...message, content } : message));
+  }
+  const end = userIndexes[turn + 1] ?? messages.length;
+  return [...messages.slice(0, start), ...messages.slice(end)];
+}
+
+function MessageView({ message }: { message: BaseMessage }) {
+  const toolCalls = (message as { tool_calls?: unknown[] }).tool_calls;
+  return (
+    <>
+      <pre className="text-xs whitespace-pre-wrap break-words max-h-60 overflow-y-auto">{messageText(message)}</pre>
+      {toolCalls && toolCalls.length > 0 && <JsonTree value={toolCalls} defaultExpandDepth={2} />}
+    </>
+  );
+}
+
+function HistoryEntry({
+  message,
+  index,
+  disabled,
+  lockedReason,
+  onChange,
+  onDelete,
+}: {
+  message: BaseMessage;
+  index: number;
+  disabled: boolean;
+  /** Why this entry cannot be edited or deleted, if it cannot */
+  lockedReason?: string;
+  onChange: (content: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  return (
+    <div className="border rounded-md p-2 space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-6">{index}</span>
+        <Badge variant="outline" className="text-xs font-mono">
+          {message._getType()}
+        </Badge>
+        <div className="ml-auto flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => {
+              setDraft(messageText(message));
+              setEditing(true);
+            }}
+            disabled={disabled || editing || !!lockedReason}
+            title={lockedReason ?? "Edit"}
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={onDelete}
+            disabled={disabled || !!lockedReason}
+            title={lockedReason ?? "Delete"}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      {editing ? (
+        <div className="space-y-1">
+          <Textarea className="text-xs font-mono min-h-[120px]" value={draft} onChange={(e) => setDraft(e.target.value)} />
+          <div className="flex justify-end gap-1">
+            <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                onChange(draft);
+                setEditing(false);
+              }}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <MessageView message={message} />
+      )}
+    </div>
+  );
+}
+
+function PromptEntry({ prompt }: { prompt: LLMPromptRecord }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-md">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 p-2 text-left text-xs">
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Badge variant="outline" className="text-xs">
+          {prompt.phase}
+        </Badge>
+        <span className="font-mono truncate">{prompt.model}</span>
+        <span className="ml-auto text-muted-foreground shrink-0">
+          {prompt.messages.length} messages · {new Date(prompt.timestamp).toLocaleTimeString()}
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 px-2 pb-2">
+        {prompt.messages.map((message, index) => (
+          <div key={index} className="border-l-2 pl-2">
+            <span className="text-xs font-mono text-muted-foreground">{message._getType()}</span>
+            <MessageView message={message} />
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function AgentInspector({ agent, onRerunLastTurn }: AgentInspectorProps) {
+  const { inspectorOpen, setInspectorOpen, isStreaming, messages, setMessages } = useChatStore();
+  const [view, setView] = useState<InspectorView>("history");
+  const [history, setHistory] = useState<BaseMessage[]>([]);
+  const [prompts, setPrompts] = useState<LLMPromptRecord[]>([]);
+
+  const refresh = useCallback(() => {
+    setHistory(agent?.getHistory() ?? []);
+    setPrompts(agent?.getPromptLog().reverse() ?? []);
+  }, [agent]);
+
+  // Take a fresh snapshot when opened and whenever a run starts or ends
+  useEffect(() => {
+    if (inspectorOpen) {
+      refresh();
+    }
+  }, [inspectorOpen, isStreaming, refresh]);
+
+  // The n-th user turn of the history is shown as the n-th user message of the chat
+  const userTurns = history.filter(isUserTurnMessage).length;
+  const turnsMatchChat = userTurns === messages.filter((message) => message.role === "user").length;
+
+  const updateHistory = (next: BaseMessage[], index: number, content: string | null) => {
+    if (!agent) return;
+    if (isUserTurnMessage(history[index])) {
+      // Keep the chat showing the same turns as the saved history
+      const turn = history.slice(0, index).filter(isUserTurnMessage).length;
+      setMessages(applyTurnChange(messages, turn, content));
+    }
+    agent.editHistory(next);
+    setHistory(agent.getHistory());
+    useConversationStore.getState()
+      .saveActiveConversation(mapChatMessagesToStoredMessages(agent.getHistory()))
+      .catch((err) => console.error("Failed to save the conversation:", err));
+  };
+
+  const canRerun = !!agent && !isStreaming && messages.some(message => message.role === "user");
+
+  return (
+    <Dialog open={inspectorOpen} onOpenChange={setInspectorOpen}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Agent Inspector</DialogTitle>
+          <DialogDescription>
+            The agent's internal history, including tool results and errors that are not shown in the chat, and the prompts it sent
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button variant={view === "history" ? "secondary" : "ghost"} size="sm" onClick={() => setView("history")}>
+            History ({history.length})
+          </Button>
+          <Button variant={view === "prompts" ? "secondary" : "ghost"} size="sm" onClick={() => setView("prompts")}>
+            Prompts ({prompts.length})
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8 ml-auto" onClick={refresh} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setInspectorOpen(false);
+              onRerunLastTurn();
+            }}
+            disabled={!canRerun}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Re-run last turn
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {!agent ? (
+            <p className="text-sm text-muted-foreground">The agent is not initialized</p>
+          ) : view === "history" ? (
+            history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The history is empty</p>
+            ) : (
+              history.map((message, index) => (
+                <HistoryEntry
+                  key={`${index}-${history.length}`}
+                  message={message}
+                  index={index}
+                  disabled={isStreaming}
+                  lockedReason={
+                    isUserTurnMessage(message) && !turnsMatchChat
+                      ? "The chat does not show the same turns as this history, so this message cannot be changed here"
+                      : undefined
+                  }
+                  onChange={(content) =>
+                    updateHistory(history.map((m, i) => (i === index ? withContent(m, content) : m)), index, content)
+                  }
+                  onDelete={() => updateHistory(history.filter((_, i) => i !== index), index, null)}
+                />
+              ))
+            )
+          ) : prompts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No prompts sent yet</p>
+          ) : (
+            prompts.map((prompt) => <PromptEntry key={`${prompt.timestamp}-${prompt.phase}`} prompt={prompt} />)
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,21 +5,35 @@
 
 import { ChatMessages } from "./ChatMessages";
 import { ChatInput } from "./ChatInput";
+import { ActivityPanel } from "./ActivityPanel";
 import { Button } from "@/components/ui/button";
+import { LLMProfileSelect } from "@/components/sidebar/LLMProfileSelect";
 import { useChatStore } from "@/stores/chatStore";
-import { Trash2 } from "lucide-react";
+import { useLLMStore } from "@/stores/llmStore";
+import { useConversationStore } from "@/stores/conversationStore";
+import { formatCost, getConversationUsage, summarizeUsage, useUsageStore } from "@/stores/usageStore";
+import { Activity, Bug, Trash2 } from "lucide-react";
+import type { AgentPlan, ToolApprovalDecision } from "@/types/agent.types";
 
 interface ChatProps {
   onSendMessage: (message: string) => void;
+  onStop?: () => void;
+  onApprovalDecision?: (decision: ToolApprovalDecision) => void;
+  onPlanConfirm?: (plan: AgentPlan) => void;
+  onUserInput?: (values: Record<string, unknown> | null) => void;
 }
 
-export function Chat({ onSendMessage }: ChatProps) {
-  const { clearMessages, clearAgentMetadata, isStreaming } = useChatStore();
+export function Chat({ onSendMessage, onStop, onApprovalDecision, onPlanConfirm, onUserInput }: ChatProps) {
+  const { messages, isStreaming, activityPanelOpen, setActivityPanelOpen, setInspectorOpen } = useChatStore();
+  const clearActiveConversation = useConversationStore((state) => state.clearActiveConversation);
+  const hasProfiles = useLLMStore((state) => state.profiles.length > 0);
+  const { prices, conversationBudget } = useUsageStore();
+  const usage = summarizeUsage(getConversationUsage(messages), prices);
+  const overBudget = conversationBudget !== null && usage.cost >= conversationBudget;
 
   const handleClear = () => {
     if (confirm("Are you sure you want to clear the conversation?")) {
-      clearMessages();
-      clearAgentMetadata();
+      clearActiveConversation().catch((err) => console.error("Failed to clear the conversation:", err));
     }
   };
 
@@ -31,24 +45,63 @@ export function Chat({ onSendMessage }: ChatProps) {
           <h2 className="text-lg font-semibold">Chat</h2>
           <p className="text-sm text-muted-foreground">
             Powered by UTCP Agent
+            {usage.inputTokens + usage.outputTokens > 0 && (
+              <span
+                className={overBudget ? "text-destructive" : undefined}
+                title={usage.unpricedModels.length > 0 ? `No price set for ${usage.unpricedModels.join(", ")}` : undefined}
+              >
+                {" · "}
+                {(usage.inputTokens + usage.outputTokens).toLocaleString()} tokens · {formatCost(usage.cost)}
+                {conversationBudget !== null && ` of ${formatCost(conversationBudget)}`}
+              </span>
+            )}
           </p>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleClear}
-          disabled={isStreaming}
-        >
-          <Trash2 className="h-4 w-4 mr-2" />
-          Clear
-        </Button>
+        <div className="flex items-center gap-2">
+          {hasProfiles && <LLMProfileSelect className="h-9 w-56" disabled={isStreaming} />}
+          <Button
+            variant={activityPanelOpen ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setActivityPanelOpen(!activityPanelOpen)}
+          >
+            <Activity className="h-4 w-4 mr-2" />
+            Activity
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setInspectorOpen(true)} title="Agent internals">
+            <Bug className="h-4 w-4 mr-2" />
+            Inspect
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClear}
+            disabled={isStreaming}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
       </div>
 
-      {/* Messages */}
-      <ChatMessages />
+      {/* Messages, with the agent activity beside them */}
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <ChatMessages
+            onApprovalDecision={onApprovalDecision}
+            onPlanConfirm={onPlanConfirm}
+            onUserInput={onUserInput}
+          />
+        </div>
+        {activityPanelOpen && <ActivityPanel />}
+      </div>
 
       {/* Input */}
-      <ChatInput onSend={onSendMessage} disabled={isStreaming} />
+      <ChatInput
+        onSend={onSendMessage}
+        onStop={onStop}
+        isRunning={isStreaming}
+        disabled={isStreaming}
+      />
     </div>
   );
 }
@@ -6,16 +6,20 @@
 import { useState, useRef, useEffect } from "react";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Send } from "lucide-react";
+import { Send, Square, ListChecks } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAgentSettingsStore } from "@/stores/agentSettingsStore";
 
 interface ChatInputProps {
   onSend: (message: string) => void;
+  onStop?: () => void;
+  isRunning?: boolean;
   disabled?: boolean;
   placeholder?: string;
 }
 
-export function ChatInput({ onSend, disabled, placeholder }: ChatInputProps) {
+export function ChatInput({ onSend, onStop, isRunning, disabled, placeholder }: ChatInputProps) {
+  const { planningMode, setPlanningMode } = useAgentSettingsStore();
   const [input, setInput] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -64,18 +68,45 @@ export function ChatInput({ onSend, disabled, placeholder }: ChatInputProps) {
           data-enable-grammarly="false"
           spellCheck="true"
         />
+        {isRunning && onStop ? (
+          <Button
+            onClick={onStop}
+            variant="destructive"
+            size="icon"
+            className="h-[60px] w-[60px]"
+            title="Stop the agent"
+          >
+            <Square className="h-5 w-5" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSend}
+            disabled={!input.trim() || disabled}
+            size="icon"
+            className="h-[60px] w-[60px]"
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <p className="text-xs text-muted-foreground">
+          {isRunning && onStop
+            ? "Agent is working... press Stop to cancel"
+            : "Press Enter to send, Shift+Enter for new line"}
+        </p>
         <Button
-          onClick={handleSend}
-          disabled={!input.trim() || disabled}
-          size="icon"
-          className="h-[60px] w-[60px]"
+          variant={planningMode ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setPlanningMode(!planningMode)}
+          disabled={isRunning}
+          title="Let the agent create a plan you can review before it calls any tools"
         >
-          <Send className="h-5 w-5" />
+          <ListChecks className="h-3 w-3 mr-1" />
+          Plan first{planningMode ? ": on" : ""}
         </Button>
       </div>
-      <p className="text-xs text-muted-foreground mt-2">
-        Press Enter to send, Shift+Enter for new line
-      </p>
     </div>
   );
 }
@@ -6,18 +6,38 @@
 import { useEffect, useRef } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { MessageItem } from "./MessageItem";
+import { MarkdownContent } from "./MarkdownContent";
+import { ToolApprovalCard } from "./ToolApprovalCard";
+import { PlanChecklist } from "./PlanChecklist";
+import { UserInputForm } from "./UserInputForm";
 import { useChatStore } from "@/stores/chatStore";
 import { Loader2 } from "lucide-react";
+import type { AgentPlan, ToolApprovalDecision } from "@/types/agent.types";
 
-export function ChatMessages() {
-  const { messages, isStreaming, currentStreamingMessage } = useChatStore();
+interface ChatMessagesProps {
+  onApprovalDecision?: (decision: ToolApprovalDecision) => void;
+  onPlanConfirm?: (plan: AgentPlan) => void;
+  onUserInput?: (values: Record<string, unknown> | null) => void;
+}
+
+export function ChatMessages({ onApprovalDecision, onPlanConfirm, onUserInput }: ChatMessagesProps) {
+  const {
+    messages,
+    isStreaming,
+    currentStreamingMessage,
+    streamingContent,
+    pendingApproval,
+    pendingUserInput,
+    currentPlan,
+    planAwaitingReview,
+  } = useChatStore();
   const scrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, currentStreamingMessage]);
+  }, [messages, currentStreamingMessage, streamingContent, pendingApproval, pendingUserInput, currentPlan]);
 
   return (
     <ScrollArea className="flex-1 relative">
@@ -43,8 +63,19 @@ export function ChatMessages() {
               <MessageItem key={message.id} message={message} />
             ))}
             
+            {/* Plan of the current run (editable until the user starts it) */}
+            {currentPlan && (
+              <div className="m-4">
+                <PlanChecklist
+                  key={planAwaitingReview ? "review" : "progress"}
+                  plan={currentPlan}
+                  onConfirm={planAwaitingReview ? onPlanConfirm : undefined}
+                />
+              </div>
+            )}
+            
             {/* Streaming message indicator */}
-            {isStreaming && currentStreamingMessage && (
+            {isStreaming && (currentStreamingMessage || streamingContent) && (
               <div className="flex gap-3 p-4 bg-muted/50">
                 <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-secondary text-secondary-foreground">
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -54,15 +85,38 @@ export function ChatMessages() {
                     <span className="font-semibold">Assistant</span>
                     <span className="text-xs text-muted-foreground">typing...</span>
                   </div>
-                  <p className="whitespace-pre-wrap break-words">
-                    {currentStreamingMessage}
-                  </p>
+                  {/* Render the response as it streams in, otherwise the agent status */}
+                  {streamingContent ? (
+                    <MarkdownContent content={streamingContent} />
+                  ) : (
+                    <p className="whitespace-pre-wrap break-words">
+                      {currentStreamingMessage}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
             
+            {/* Tool call waiting for approval */}
+            {pendingApproval && onApprovalDecision && (
+              <ToolApprovalCard
+                key={`${pendingApproval.toolName}:${JSON.stringify(pendingApproval.arguments)}`}
+                request={pendingApproval}
+                onDecision={onApprovalDecision}
+              />
+            )}
+            
+            {/* Missing tool parameters the agent asked for */}
+            {pendingUserInput && onUserInput && (
+              <UserInputForm
+                key={`${pendingUserInput.toolName}:${pendingUserInput.question}`}
+                request={pendingUserInput}
+                onSubmit={onUserInput}
+              />
+            )}
+            
             {/* Loading indicator without message */}
-            {isStreaming && !currentStreamingMessage && (
+            {isStreaming && !currentStreamingMessage && !streamingContent && (
               <div className="flex gap-3 p-4">
                 <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-secondary text-secondary-foreground">
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -0,0 +1,107 @@
+/**
+ * JSON Tree Component
+ * Collapsible tree view of a JSON value; strings holding JSON are shown as trees too
+ */
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+interface JsonTreeProps {
+  value: unknown;
+  /** Levels expanded initially */
+  defaultExpandDepth?: number;
+}
+
+// Long string values are cut until expanded
+const MAX_STRING_PREVIEW = 300;
+
+/**
+ * Parse strings that contain a JSON object or array, e.g. raw HTTP tool results
+ */
+function parseJsonString(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  const trimmed = value.trim();
+  if (!(trimmed.startsWith("{") || trimmed.startsWith("["))) {
+    return value;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+}
+
+function StringValue({ value }: { value: string }) {
+  const [expanded, setExpanded] = useState(false);
+  const truncated = !expanded && value.length > MAX_STRING_PREVIEW;
+  return (
+    <span className="text-green-700 dark:text-green-400 whitespace-pre-wrap break-all">
+      "{truncated ? value.substring(0, MAX_STRING_PREVIEW) : value}"
+      {truncated && (
+        <button className="ml-1 text-muted-foreground hover:underline" onClick={() => setExpanded(true)}>
+          … {value.length - MAX_STRING_PREVIEW} more characters
+        </button>
+      )}
+    </span>
+  );
+}
+
+function PrimitiveValue({ value }: { value: unknown }) {
+  if (typeof value === "string") {
+    return <StringValue value={value} />;
+  }
+  if (typeof value === "number") {
+    return <span className="text-blue-700 dark:text-blue-400">{value}</span>;
+  }
+  if (typeof value === "boolean") {
+    return <span className="text-purple-700 dark:text-purple-400">{String(value)}</span>;
+  }
+  return <span className="text-muted-foreground">{value === undefined ? "undefined" : "null"}</span>;
+}
+
+function JsonNode({ name, value, depth, defaultExpandDepth }: { name?: string; value: unknown; depth: number; defaultExpandDepth: number }) {
+  const [expanded, setExpanded] = useState(depth < defaultExpandDepth);
+  const isArray = Array.isArray(value);
+  const isObject = typeof value === "object" && value !== null;
+
+  const label = name !== undefined && <span className="text-foreground">{name}: </span>;
+
+  if (!isObject) {
+    return (
+      <div className="pl-4">
+        {label}
+        <PrimitiveValue value={value} />
+      </div>
+    );
+  }
+
+  const entries = isArray ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div>
+      <button className="flex items-center text-left hover:bg-muted/50 rounded" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        {label}
+        <span className="text-muted-foreground">{summary}</span>
+      </button>
+      {expanded && (
+        <div className="pl-3 border-l ml-1.5">
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={key} value={item} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function JsonTree({ value, defaultExpandDepth = 1 }: JsonTreeProps) {
+  return (
+    <div className="font-mono text-xs overflow-x-auto">
+      <JsonNode value={parseJsonString(value)} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+}
@@ -4,19 +4,51 @@
  */
 
 import type { Message } from "@/types/chat.types";
+import type { LLMUsage } from "@/types/llm.types";
+import { formatCost, summarizeUsage, useUsageStore } from "@/stores/usageStore";
+import { useChatStore } from "@/stores/chatStore";
 import { cn } from "@/lib/utils";
-import { User, Bot, Terminal } from "lucide-react";
-import ReactMarkdown from "react-markdown";
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
-import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { User, Bot, Terminal, Coins, Activity } from "lucide-react";
+import { MarkdownContent } from "./MarkdownContent";
+import { PlanChecklist } from "./PlanChecklist";
+import { ToolCallCard } from "./ToolCallCard";
 
 interface MessageItemProps {
   message: Message;
 }
 
+function UsageLine({ usage }: { usage: LLMUsage[] }) {
+  const prices = useUsageStore((state) => state.prices);
+  const summary = summarizeUsage(usage, prices);
+  // One line per LLM call, e.g. "router (gpt-4o): 1200 in / 80 out"
+  const details = usage
+    .map(call => `${call.phase} (${call.model}): ${call.inputTokens} in / ${call.outputTokens} out`)
+    .join("\n");
+  const unpriced = summary.unpricedModels.length > 0 ? `\nNo price set for ${summary.unpricedModels.join(", ")}` : "";
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground" title={details + unpriced}>
+      <Coins className="h-3 w-3" />
+      <span>
+        {summary.inputTokens.toLocaleString()} in · {summary.outputTokens.toLocaleString()} out ·{" "}
+        {formatCost(summary.cost)}
+        {summary.unpricedModels.length > 0 && "+"}
+      </span>
+    </div>
+  );
+}
+
 export function MessageItem({ message }: MessageItemProps) {
   const isUser = message.role === "user";
   const isSystem = message.role === "system";
+  const { setActivityMessageId, setActivityPanelOpen } = useChatStore();
+
+  const handleShowActivity = () => {
+    setActivityMessageId(message.id);
+    setActivityPanelOpen(true);
+  };
 
   return (
     <div
@@ -53,74 +85,45 @@ export function MessageItem({ message }: MessageItemProps) {
           <span className="text-xs text-muted-foreground">
             {message.timestamp.toLocaleTimeString()}
           </span>
+          {message.cancelled && (
+            <Badge variant="outline" className="text-xs text-muted-foreground">
+              Cancelled
+            </Badge>
+          )}
+          {message.activity && message.activity.length > 0 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 ml-auto text-muted-foreground"
+              onClick={handleShowActivity}
+              title="Show agent activity"
+            >
+              <Activity className="h-3 w-3" />
+            </Button>
+          )}
         </div>
 
+        {/* Plan the response was produced with (planning mode) */}
+        {message.plan && <PlanChecklist plan={message.plan} />}
+
         {/* Render markdown for assistant messages, plain text for user messages */}
         {isUser || isSystem ? (
           <p className="whitespace-pre-wrap break-words">{message.content}</p>
         ) : (
-          <div className="prose prose-sm dark:prose-invert max-w-none">
-            <ReactMarkdown
-              components={{
-                code({ node, className, children, ref, ...props }) {
-                  const match = /language-(\w+)/.exec(className || "");
-                  return match ? (
-                    <SyntaxHighlighter
-                      style={vscDarkPlus as any}
-                      language={match[1]}
-                      PreTag="div"
-                    >
-                      {String(children).replace(/\n$/, "")}
-                    </SyntaxHighlighter>
-                  ) : (
-                    <code className={className} {...props}>
-                      {children}
-                    </code>
-                  );
-                },
-              }}
-            >
-              {message.content}
-            </ReactMarkdown>
-          </div>
+          <MarkdownContent content={message.content} />
         )}
 
         {/* Tool Calls (if any) */}
         {message.toolCalls && message.toolCalls.length > 0 && (
           <div className="space-y-2 mt-3">
             {message.toolCalls.map((toolCall, idx) => (
-              <div
-                key={idx}
-                className="border rounded-lg p-3 bg-background/50 text-sm"
-              >
-                <div className="flex items-center gap-2 mb-2">
-                  <Terminal className="h-4 w-4" />
-                  <span className="font-medium">Tool: {toolCall.toolName}</span>
-                </div>
-                <div className="text-xs text-muted-foreground space-y-1">
-                  <div>
-                    <span className="font-medium">Arguments:</span>{" "}
-                    {JSON.stringify(toolCall.arguments)}
-                  </div>
-                  {toolCall.result && (
-                    <div>
-                      <span className="font-medium">Result:</span>{" "}
-                      {typeof toolCall.result === "string"
-                        ? toolCall.result.substring(0, 200)
-                        : JSON.stringify(toolCall.result).substring(0, 200)}
-                      {(typeof toolCall.result === "string" ? toolCall.result : JSON.stringify(toolCall.result)).length > 200 && "..."}
-                    </div>
-                  )}
-                  {toolCall.error && (
-                    <div className="text-destructive">
-                      <span className="font-medium">Error:</span> {toolCall.error}
-                    </div>
-                  )}
-                </div>
-              </div>
+              <ToolCallCard key={idx} toolCall={toolCall} />
             ))}
           </div>
         )}
+
+        {/* Tokens and estimated cost of the run behind this response */}
+        {message.usage && message.usage.length > 0 && <UsageLine usage={message.usage} />}
       </div>
     </div>
   );
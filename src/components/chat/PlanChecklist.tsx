@@ -0,0 +1,118 @@
+/**
+ * Plan Checklist Component
+ * Shows the agent's plan with per-step status; editable while the plan awaits review
+ */
+
+import { useState } from "react";
+import type { AgentPlan, PlanStep, PlanStepStatus } from "@/types/agent.types";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Circle, CheckCircle2, XCircle, MinusCircle, Loader2, ListChecks, Plus, Play, X } from "lucide-react";
+
+interface PlanChecklistProps {
+  plan: AgentPlan;
+  /** When set, the steps can be edited and the plan is started with this callback */
+  onConfirm?: (plan: AgentPlan) => void;
+}
+
+function StatusIcon({ status }: { status: PlanStepStatus }) {
+  switch (status) {
+    case "in_progress":
+      return <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />;
+    case "completed":
+      return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />;
+    case "failed":
+      return <XCircle className="h-4 w-4 shrink-0 text-destructive" />;
+    case "skipped":
+      return <MinusCircle className="h-4 w-4 shrink-0 text-muted-foreground" />;
+    default:
+      return <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  }
+}
+
+export function PlanChecklist({ plan, onConfirm }: PlanChecklistProps) {
+  const [steps, setSteps] = useState<PlanStep[]>(plan.steps);
+  const editable = !!onConfirm;
+  const shownSteps = editable ? steps : plan.steps;
+
+  const updateStep = (id: string, description: string) => {
+    setSteps(steps.map(step => (step.id === id ? { ...step, description } : step)));
+  };
+
+  const handleConfirm = () => {
+    const edited = steps
+      .map(step => ({ ...step, description: step.description.trim() }))
+      .filter(step => step.description !== "");
+    onConfirm?.({ ...plan, steps: edited });
+  };
+
+  return (
+    <div className="border rounded-lg p-3 bg-background/50 text-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <ListChecks className="h-4 w-4" />
+        <span className="font-medium">{editable ? "Review the plan" : "Plan"}</span>
+        {plan.revision > 0 && (
+          <Badge variant="outline" className="text-xs">
+            Revised {plan.revision}×
+          </Badge>
+        )}
+      </div>
+
+      <ol className="space-y-1">
+        {shownSteps.map((step, index) => (
+          <li key={step.id} className="flex items-center gap-2">
+            <StatusIcon status={step.status} />
+            <span className="text-xs text-muted-foreground w-4 shrink-0">{index + 1}.</span>
+            {editable ? (
+              <>
+                <Input
+                  value={step.description}
+                  onChange={(e) => updateStep(step.id, e.target.value)}
+                  className="h-8 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => setSteps(steps.filter(s => s.id !== step.id))}
+                  title="Remove step"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </>
+            ) : (
+              <span
+                className={cn(
+                  "break-words",
+                  step.status === "skipped" && "line-through text-muted-foreground",
+                  step.status === "failed" && "text-destructive"
+                )}
+              >
+                {step.description}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {editable && (
+        <div className="flex gap-2 justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSteps([...steps, { id: crypto.randomUUID(), description: "", status: "pending" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add step
+          </Button>
+          <Button size="sm" onClick={handleConfirm} disabled={steps.every(step => !step.description.trim())}>
+            <Play className="h-4 w-4 mr-1" />
+            Run plan
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Tool Approval Card Component
+ * Lets the user approve, edit or reject a tool call before the agent executes it
+ */
+
+import { useState } from "react";
+import type { ToolApprovalDecision, ToolApprovalRequest } from "@/types/agent.types";
+import { useApprovalStore } from "@/stores/approvalStore";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldQuestion, Check, X } from "lucide-react";
+
+interface ToolApprovalCardProps {
+  request: ToolApprovalRequest;
+  onDecision: (decision: ToolApprovalDecision) => void;
+}
+
+export function ToolApprovalCard({ request, onDecision }: ToolApprovalCardProps) {
+  const { setToolPolicy } = useApprovalStore();
+  const [argumentsJson, setArgumentsJson] = useState(() => JSON.stringify(request.arguments, null, 2));
+  const [argumentsError, setArgumentsError] = useState("");
+  const [rejectReason, setRejectReason] = useState("");
+
+  const template = request.callTemplate || {};
+  const templateType = String(template.call_template_type || "unknown");
+  const httpMethod = template.http_method ? String(template.http_method) : null;
+  const target = template.url ? String(template.url) : null;
+
+  const parseArguments = (): Record<string, unknown> | null => {
+    try {
+      const parsed = JSON.parse(argumentsJson);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setArgumentsError("Arguments must be a JSON object");
+        return null;
+      }
+      return parsed;
+    } catch (error: unknown) {
+      setArgumentsError(error instanceof Error ? error.message : "Invalid JSON");
+      return null;
+    }
+  };
+
+  const handleApprove = (alwaysAllow: boolean) => {
+    const args = parseArguments();
+    if (!args) {
+      return;
+    }
+    if (alwaysAllow) {
+      setToolPolicy(request.toolName, "auto");
+    }
+    onDecision({ approved: true, arguments: args });
+  };
+
+  const handleReject = () => {
+    onDecision({ approved: false, reason: rejectReason.trim() || undefined });
+  };
+
+  return (
+    <div className="m-4 border rounded-lg p-4 bg-amber-50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-900 space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <ShieldQuestion className="h-4 w-4" />
+        <span className="font-semibold">Approve tool call?</span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-mono font-medium">{request.toolName}</span>
+          <Badge variant="secondary" className="text-xs">{request.manualName}</Badge>
+          <Badge variant="outline" className="text-xs uppercase">{templateType}</Badge>
+          {httpMethod && (
+            <Badge variant={httpMethod === "GET" ? "outline" : "destructive"} className="text-xs">
+              {httpMethod}
+            </Badge>
+          )}
+        </div>
+        {target && (
+          <p className="text-xs font-mono text-muted-foreground break-all">{target}</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="approval-arguments" className="text-xs">Arguments (editable)</Label>
+        <Textarea
+          id="approval-arguments"
+          value={argumentsJson}
+          onChange={(e) => {
+            setArgumentsJson(e.target.value);
+            setArgumentsError("");
+          }}
+          rows={Math.min(12, argumentsJson.split("\n").length + 1)}
+          className="font-mono text-xs"
+        />
+        {argumentsError && <p className="text-xs text-destructive">{argumentsError}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="approval-reason" className="text-xs">Rejection reason (sent to the assistant)</Label>
+        <Input
+          id="approval-reason"
+          value={rejectReason}
+          onChange={(e) => setRejectReason(e.target.value)}
+          placeholder="e.g. Use the staging endpoint instead"
+          className="text-xs"
+        />
+      </div>
+
+      <div className="flex gap-2 justify-end flex-wrap">
+        <Button variant="outline" size="sm" onClick={handleReject}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleApprove(true)}>
+          Always allow this tool
+        </Button>
+        <Button size="sm" onClick={() => handleApprove(false)}>
+          <Check className="h-4 w-4 mr-1" />
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+}
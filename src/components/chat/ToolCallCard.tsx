@@ -0,0 +1,55 @@
+/**
+ * Tool Call Card Component
+ * Collapsible card with a tool call's arguments and result or error
+ */
+
+import { useState } from "react";
+import type { ToolCall } from "@/types/chat.types";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { JsonTree } from "./JsonTree";
+import { CheckCircle2, ChevronDown, ChevronRight, Terminal, XCircle } from "lucide-react";
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function ToolCallCard({ toolCall }: { toolCall: ToolCall }) {
+  const [open, setOpen] = useState(false);
+  const failed = !!toolCall.error;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-lg bg-background/50 text-sm">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 p-3 text-left">
+        {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+        <Terminal className="h-4 w-4 shrink-0" />
+        <span className="font-medium truncate">{toolCall.toolName}</span>
+        {toolCall.manualName && (
+          <Badge variant="outline" className="text-xs font-normal">
+            {toolCall.manualName}
+          </Badge>
+        )}
+        <span className="ml-auto flex items-center gap-2 text-xs text-muted-foreground shrink-0">
+          {toolCall.durationMs !== undefined && formatDuration(toolCall.durationMs)}
+          {failed ? <XCircle className="h-4 w-4 text-destructive" /> : <CheckCircle2 className="h-4 w-4 text-green-600" />}
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 px-3 pb-3">
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-1">Arguments</div>
+          <JsonTree value={toolCall.arguments} />
+        </div>
+        {failed ? (
+          <div className="text-xs text-destructive">
+            <span className="font-medium">Error:</span> {toolCall.error}
+          </div>
+        ) : (
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">Result</div>
+            <JsonTree value={toolCall.result} />
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * User Input Form Component
+ * Form generated from a tool's inputs schema for parameters the agent asked the user for
+ */
+
+import { useState } from "react";
+import type { JsonSchema } from "@utcp/sdk";
+import type { UserInputRequest } from "@/types/agent.types";
+import { validateJsonSchema } from "@/utils/jsonSchemaValidator";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageCircleQuestion, Send } from "lucide-react";
+
+interface UserInputFormProps {
+  request: UserInputRequest;
+  /** Called with the entered values, or null when the user skips the question */
+  onSubmit: (values: Record<string, unknown> | null) => void;
+}
+
+function fieldType(schema: JsonSchema): string {
+  return Array.isArray(schema.type) ? schema.type.find(t => t !== "null") || "string" : schema.type || "string";
+}
+
+function FieldInput({
+  id,
+  schema,
+  value,
+  onChange,
+}: {
+  id: string;
+  schema: JsonSchema;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const type = fieldType(schema);
+  const options = Array.isArray(schema.enum)
+    ? schema.enum.map(String)
+    : type === "boolean"
+      ? ["true", "false"]
+      : null;
+
+  if (options) {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select..." />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (type === "object" || type === "array") {
+    return (
+      <Textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={type === "array" ? '["value"]' : '{"key": "value"}'}
+        rows={3}
+        className="font-mono text-xs"
+      />
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      type={type === "number" || type === "integer" ? "number" : schema.format === "date" ? "date" : "text"}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={schema.default !== undefined ? String(schema.default) : undefined}
+    />
+  );
+}
+
+export function UserInputForm({ request, onSubmit }: UserInputFormProps) {
+  const properties = request.schema.properties || {};
+  const required = request.schema.required || [];
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = () => {
+    // Leave empty optional fields out; the validator coerces the strings into the schema types
+    const entered = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value.trim() !== "")
+    );
+    const validation = validateJsonSchema(entered, request.schema);
+    if (!validation.valid) {
+      setErrors(Object.fromEntries(validation.errors.map(error => [error.path.split("/")[1] || "", error.message])));
+      return;
+    }
+    onSubmit(validation.value as Record<string, unknown>);
+  };
+
+  const knownArguments = Object.keys(request.arguments);
+
+  return (
+    <div className="m-4 border rounded-lg p-4 bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-900 space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <MessageCircleQuestion className="h-4 w-4" />
+        <span className="font-semibold">{request.question}</span>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        <span>Needed for</span>
+        <span className="font-mono font-medium text-foreground">{request.toolName}</span>
+        {knownArguments.length > 0 && (
+          <Badge variant="outline" className="text-xs font-mono" title={JSON.stringify(request.arguments, null, 2)}>
+            {knownArguments.length} known {knownArguments.length === 1 ? "argument" : "arguments"}
+          </Badge>
+        )}
+      </div>
+
+      {Object.entries(properties).map(([name, schema]) => (
+        <div key={name} className="space-y-1">
+          <Label htmlFor={`user-input-${name}`} className="text-xs">
+            {name}
+            {required.includes(name) && <span className="text-destructive"> *</span>}
+          </Label>
+          <FieldInput
+            id={`user-input-${name}`}
+            schema={schema}
+            value={values[name] ?? ""}
+            onChange={(value) => {
+              setValues({ ...values, [name]: value });
+              setErrors({ ...errors, [name]: "" });
+            }}
+          />
+          {schema.description && <p className="text-xs text-muted-foreground">{schema.description}</p>}
+          {errors[name] && <p className="text-xs text-destructive">{name} {errors[name]}</p>}
+        </div>
+      ))}
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={() => onSubmit(null)}>
+          Skip
+        </Button>
+        <Button size="sm" onClick={handleSubmit}>
+          <Send className="h-4 w-4 mr-1" />
+          Submit
+        </Button>
+      </div>
+    </div>
+  );
+}
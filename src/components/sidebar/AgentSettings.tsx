@@ -0,0 +1,256 @@
+/**
+ * Agent Settings Component
+ * Agent loop and search limits, system prompt, prompt templates and presets of them
+ */
+
+import { useState } from "react";
+import { useAgentSettingsStore } from "@/stores/agentSettingsStore";
+import { PromptTemplatesDialog } from "./PromptTemplatesDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+
+interface NumberSettingProps {
+  id: string;
+  label: string;
+  value: number | null;
+  min: number;
+  max: number;
+  /** Shown when the value is null; only settings with a placeholder can be cleared */
+  placeholder?: string;
+  hint?: string;
+  onCommit: (value: number | null) => void;
+}
+
+/**
+ * Number input that applies its value on blur or Enter, since every change rebuilds the agent
+ */
+function NumberSetting({ id, label, value, min, max, placeholder, hint, onCommit }: NumberSettingProps) {
+  const commit = (input: HTMLInputElement) => {
+    const parsed = parseInt(input.value);
+    const next = Number.isNaN(parsed)
+      ? placeholder !== undefined ? null : value
+      : Math.min(max, Math.max(min, parsed));
+    if (next !== value) {
+      onCommit(next);
+    } else {
+      // Show the kept value instead of an invalid or out-of-range entry
+      input.value = value === null ? "" : String(value);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        // Re-mount when the value changes elsewhere (e.g. a preset switch)
+        key={String(value)}
+        defaultValue={value ?? ""}
+        onBlur={(e) => commit(e.target)}
+        onKeyDown={(e) => e.key === "Enter" && commit(e.currentTarget)}
+        placeholder={placeholder}
+      />
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export function AgentSettings() {
+  const {
+    agentConfig,
+    promptTemplates,
+    presets,
+    activePresetId,
+    savePreset,
+    updateActivePreset,
+    switchPreset,
+    renamePreset,
+    deletePreset,
+    updateAgentConfig,
+    resetAgentConfig,
+  } = useAgentSettingsStore();
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState(false);
+
+  const activePreset = presets.find((preset) => preset.id === activePresetId);
+  const isDirty =
+    !!activePreset &&
+    JSON.stringify({ agentConfig: activePreset.agentConfig, promptTemplates: activePreset.promptTemplates }) !==
+      JSON.stringify({ agentConfig, promptTemplates });
+
+  const handleSaveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (renaming && activePreset) {
+      renamePreset(activePreset.id, name);
+    } else {
+      savePreset(name);
+    }
+    setNewName("");
+    setRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (activePreset && confirm(`Delete the preset "${activePreset.name}"?`)) {
+      deletePreset(activePreset.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Agent</CardTitle>
+        <CardDescription>How the agent works through a request</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Preset</Label>
+          <div className="flex gap-1">
+            <Select value={activePresetId ?? ""} onValueChange={switchPreset} disabled={presets.length === 0}>
+              <SelectTrigger className="flex-1" title="Agent preset">
+                <SelectValue placeholder={presets.length === 0 ? "No saved presets" : "Unsaved settings"} />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activePreset && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  onClick={updateActivePreset}
+                  disabled={!isDirty}
+                  title={isDirty ? `Save changes to "${activePreset.name}"` : "No unsaved changes"}
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  onClick={() => {
+                    setRenaming(true);
+                    setNewName(activePreset.name);
+                  }}
+                  title="Rename preset"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={handleDelete} title="Delete preset">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+          {isDirty && <p className="text-xs text-muted-foreground">Unsaved changes to this preset</p>}
+
+          <div className="flex gap-1">
+            <Input
+              className="h-8 text-xs"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveAs();
+                if (e.key === "Escape") {
+                  setRenaming(false);
+                  setNewName("");
+                }
+              }}
+              placeholder={renaming ? "New preset name" : "Save current settings as..."}
+            />
+            <Button variant="outline" size="sm" className="h-8 shrink-0" onClick={handleSaveAs} disabled={!newName.trim()}>
+              {renaming ? <Pencil className="h-3 w-3 mr-1" /> : <Plus className="h-3 w-3 mr-1" />}
+              {renaming ? "Rename" : "Save"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <NumberSetting
+            id="agent-max-iterations"
+            label="Max iterations"
+            value={agentConfig.maxIterations}
+            min={1}
+            max={50}
+            onCommit={(value) => value !== null && updateAgentConfig({ maxIterations: value })}
+          />
+          <NumberSetting
+            id="agent-max-tools"
+            label="Tools per search"
+            value={agentConfig.maxToolsPerSearch}
+            min={1}
+            max={100}
+            onCommit={(value) => value !== null && updateAgentConfig({ maxToolsPerSearch: value })}
+          />
+        </div>
+        <NumberSetting
+          id="agent-recursion-limit"
+          label="Recursion limit"
+          value={agentConfig.recursionLimit}
+          min={1}
+          max={200}
+          hint="Decide rounds per message across all iterations and plan steps"
+          onCommit={(value) => value !== null && updateAgentConfig({ recursionLimit: value })}
+        />
+        <NumberSetting
+          id="agent-max-result-tokens"
+          label="Tool result limit (tokens)"
+          value={agentConfig.maxResultTokens}
+          min={100}
+          max={100000}
+          hint="Larger results are stored and read by the agent page by page"
+          onCommit={(value) => value !== null && updateAgentConfig({ maxResultTokens: value })}
+        />
+        <NumberSetting
+          id="agent-summarize-threshold"
+          label="Summarize history above (tokens)"
+          value={agentConfig.summarizeThreshold}
+          min={1000}
+          max={2000000}
+          placeholder="75% of the context window"
+          onCommit={(value) => updateAgentConfig({ summarizeThreshold: value })}
+        />
+
+        <div className="space-y-1">
+          <Label htmlFor="agent-system-prompt">System prompt</Label>
+          <Textarea
+            id="agent-system-prompt"
+            className="text-xs"
+            rows={4}
+            key={agentConfig.systemPrompt}
+            defaultValue={agentConfig.systemPrompt}
+            onBlur={(e) => {
+              if (!e.target.value.trim()) {
+                e.target.value = agentConfig.systemPrompt;
+              } else if (e.target.value !== agentConfig.systemPrompt) {
+                updateAgentConfig({ systemPrompt: e.target.value });
+              }
+            }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <PromptTemplatesDialog />
+          <Button variant="ghost" size="sm" className="shrink-0" onClick={resetAgentConfig} title="Reset the limits and system prompt">
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Defaults
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
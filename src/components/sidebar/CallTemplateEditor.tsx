@@ -14,6 +14,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Plus, FileJson, MessageSquare, Settings2, Loader2, CheckCircle, XCircle } from "lucide-react";
 import { useUtcpConfigStore } from "@/stores/utcpConfigStore";
 import { useLLMStore } from "@/stores/llmStore";
+import { LLM_PROVIDERS } from "@/types/llm.types";
 import { useCallTemplateGenerator } from "@/hooks/useCallTemplateGenerator";
 import { createUtcpClientWithAutoVariables } from "@/utils/utcpClientHelper";
 import { CallTemplateSerializer, UtcpClientConfigSerializer } from "@utcp/sdk";
@@ -242,7 +243,7 @@ export function CallTemplateEditor() {
       }
       // Handle natural language input
       else if (inputMethod === 'natural_language') {
-        if (!llmConfig.apiKey) {
+        if (LLM_PROVIDERS[llmConfig.provider]?.requiresApiKey && !llmConfig.apiKey) {
           setError("Please configure your LLM API key in the sidebar first.");
           setIsValidating(false);
           return;
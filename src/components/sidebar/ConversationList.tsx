@@ -0,0 +1,131 @@
+/**
+ * Conversation List Component
+ * Create, switch, rename and delete the conversations saved in IndexedDB
+ */
+
+import { useState } from "react";
+import { useConversationStore } from "@/stores/conversationStore";
+import { useChatStore } from "@/stores/chatStore";
+import type { ConversationSummary } from "@/types/chat.types";
+import { cn } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+
+function logError(action: string) {
+  return (error: unknown) => console.error(`[Conversations] Failed to ${action}:`, error);
+}
+
+function ConversationEntry({ conversation, isActive, disabled }: { conversation: ConversationSummary; isActive: boolean; disabled: boolean }) {
+  const { openConversation, renameConversation, deleteConversation } = useConversationStore();
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const commitRename = () => {
+    setEditing(false);
+    if (title.trim() && title !== conversation.title) {
+      renameConversation(conversation.id, title).catch(logError("rename the conversation"));
+    } else {
+      setTitle(conversation.title);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete the conversation "${conversation.title}"?`)) {
+      deleteConversation(conversation.id).catch(logError("delete the conversation"));
+    }
+  };
+
+  if (editing) {
+    return (
+      <Input
+        className="h-8 text-sm"
+        value={title}
+        autoFocus
+        onChange={(e) => setTitle(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitRename();
+          if (e.key === "Escape") {
+            setTitle(conversation.title);
+            setEditing(false);
+          }
+        }}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-2 rounded-md px-2 py-1 text-sm",
+        isActive ? "bg-accent text-accent-foreground" : "hover:bg-muted",
+        disabled && !isActive ? "opacity-50" : "cursor-pointer"
+      )}
+      onClick={() => !isActive && !disabled && openConversation(conversation.id).catch(logError("open the conversation"))}
+      title={new Date(conversation.updatedAt).toLocaleString()}
+    >
+      <MessageSquare className="h-3 w-3 shrink-0" />
+      <span className="flex-1 truncate">{conversation.title}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+        onClick={(e) => {
+          e.stopPropagation();
+          setTitle(conversation.title);
+          setEditing(true);
+        }}
+        title="Rename"
+      >
+        <Pencil className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+        onClick={(e) => {
+          e.stopPropagation();
+          handleDelete();
+        }}
+        disabled={disabled}
+        title="Delete"
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+export function ConversationList() {
+  const { conversations, activeConversationId, isLoaded, createConversation } = useConversationStore();
+  const isStreaming = useChatStore((state) => state.isStreaming);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Conversations</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => createConversation().catch(logError("create a conversation"))}
+          disabled={isStreaming || !isLoaded}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-1 max-h-64 overflow-y-auto">
+        {conversations.map((conversation) => (
+          <ConversationEntry
+            key={conversation.id}
+            conversation={conversation}
+            isActive={conversation.id === activeConversationId}
+            disabled={isStreaming}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
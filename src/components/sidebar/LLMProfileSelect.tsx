@@ -0,0 +1,35 @@
+/**
+ * LLM Profile Select Component
+ * Dropdown for switching between saved LLM profiles
+ */
+
+import { useLLMStore } from "@/stores/llmStore";
+import { LLM_PROVIDERS } from "@/types/llm.types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface LLMProfileSelectProps {
+  className?: string;
+  disabled?: boolean;
+}
+
+export function LLMProfileSelect({ className, disabled }: LLMProfileSelectProps) {
+  const { profiles, activeProfileId, switchProfile } = useLLMStore();
+
+  return (
+    <Select value={activeProfileId ?? ""} onValueChange={switchProfile} disabled={disabled || profiles.length === 0}>
+      <SelectTrigger className={className} title="LLM profile">
+        <SelectValue placeholder={profiles.length === 0 ? "No saved profiles" : "Unsaved configuration"} />
+      </SelectTrigger>
+      <SelectContent>
+        {profiles.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+            <span className="text-muted-foreground">
+              {" "}· {LLM_PROVIDERS[profile.config.provider]?.name ?? profile.config.provider} / {profile.config.model}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * LLM Profiles Component
+ * Save, switch, rename, delete, import and export named LLM configurations
+ */
+
+import { useState } from "react";
+import { useLLMStore } from "@/stores/llmStore";
+import { LLMProfileSelect } from "./LLMProfileSelect";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp, Download, Pencil, Plus, Save, Trash2, Upload } from "lucide-react";
+
+export function LLMProfiles() {
+  const {
+    config,
+    profiles,
+    activeProfileId,
+    saveProfile,
+    updateActiveProfile,
+    renameProfile,
+    deleteProfile,
+    importProfiles,
+    exportProfiles,
+  } = useLLMStore();
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState(false);
+  const [showImportExport, setShowImportExport] = useState(false);
+  const [importJson, setImportJson] = useState("");
+  const [importMessage, setImportMessage] = useState("");
+  const [importError, setImportError] = useState("");
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+  const isDirty = !!activeProfile && JSON.stringify(activeProfile.config) !== JSON.stringify(config);
+
+  const handleSaveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (renaming && activeProfile) {
+      renameProfile(activeProfile.id, name);
+    } else {
+      saveProfile(name);
+    }
+    setNewName("");
+    setRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (activeProfile && confirm(`Delete the profile "${activeProfile.name}"?`)) {
+      deleteProfile(activeProfile.id);
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      const count = importProfiles(importJson);
+      setImportJson("");
+      setImportError("");
+      setImportMessage(`Imported ${count} ${count === 1 ? "profile" : "profiles"}. Add their API keys before use.`);
+    } catch (error) {
+      setImportMessage("");
+      setImportError(error instanceof Error ? error.message : "Failed to import profiles");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Profile</Label>
+      <div className="flex gap-1">
+        <LLMProfileSelect className="flex-1" />
+        {activeProfile && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              onClick={updateActiveProfile}
+              disabled={!isDirty}
+              title={isDirty ? `Save changes to "${activeProfile.name}"` : "No unsaved changes"}
+            >
+              <Save className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              onClick={() => {
+                setRenaming(true);
+                setNewName(activeProfile.name);
+              }}
+              title="Rename profile"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={handleDelete} title="Delete profile">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      {isDirty && <p className="text-xs text-muted-foreground">Unsaved changes to this profile</p>}
+
+      <div className="flex gap-1">
+        <Input
+          className="h-8 text-xs"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSaveAs();
+            if (e.key === "Escape") {
+              setRenaming(false);
+              setNewName("");
+            }
+          }}
+          placeholder={renaming ? "New profile name" : "Save current settings as..."}
+        />
+        <Button variant="outline" size="sm" className="h-8 shrink-0" onClick={handleSaveAs} disabled={!newName.trim()}>
+          {renaming ? <Pencil className="h-3 w-3 mr-1" /> : <Plus className="h-3 w-3 mr-1" />}
+          {renaming ? "Rename" : "Save"}
+        </Button>
+      </div>
+
+      <Collapsible open={showImportExport} onOpenChange={setShowImportExport}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" className="flex w-full items-center justify-between p-0 h-6 hover:bg-transparent">
+            <span className="text-xs text-muted-foreground">Import / Export profiles</span>
+            {showImportExport ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-2 pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => navigator.clipboard.writeText(exportProfiles())}
+            disabled={profiles.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export to Clipboard
+          </Button>
+          <p className="text-xs text-muted-foreground">API keys are never exported</p>
+          <Textarea
+            value={importJson}
+            onChange={(e) => {
+              setImportJson(e.target.value);
+              setImportError("");
+              setImportMessage("");
+            }}
+            placeholder='{"profiles": [...]}'
+            rows={4}
+            className="font-mono text-xs"
+          />
+          {importError && <p className="text-xs text-destructive">{importError}</p>}
+          {importMessage && <p className="text-xs text-muted-foreground">{importMessage}</p>}
+          <Button variant="outline" size="sm" className="w-full" onClick={handleImport} disabled={!importJson.trim()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import from JSON
+          </Button>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
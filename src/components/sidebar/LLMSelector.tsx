@@ -4,21 +4,47 @@
  */
 
 import { useLLMStore } from "@/stores/llmStore";
-import { LLM_PROVIDERS, type LLMProvider } from "@/types/llm.types";
+import { getAvailableModels, getModelListKey, useModelListStore } from "@/stores/modelListStore";
+import { useVaultStore, type VaultMode } from "@/stores/vaultStore";
+import { LLM_PROVIDERS, type LLMPhase, type LLMProvider } from "@/types/llm.types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { Eye, EyeOff, ChevronDown, ChevronUp } from "lucide-react";
+import { Eye, EyeOff, ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
+import { ModelCapabilitiesEditor } from "./ModelCapabilitiesEditor";
+import { LLMProfiles } from "./LLMProfiles";
+
+const PHASES: Array<{ phase: LLMPhase; label: string; description: string }> = [
+  { phase: "router", label: "Router", description: "Task analysis, tool decisions and planning" },
+  { phase: "responder", label: "Responder", description: "Final answer" },
+  { phase: "summarizer", label: "Summarizer", description: "Condensing long conversations" },
+];
+
+// Radix Select does not allow an empty value
+const MAIN_MODEL_VALUE = "__main__";
+
+const KEY_STORAGE_NOTES: Record<VaultMode, string> = {
+  plain: "⚠️ API keys are stored in browser localStorage",
+  encrypted: "🔒 API keys are stored encrypted",
+  session: "API keys are kept for this session only",
+};
+
+// Wait for the user to stop typing a key or URL before fetching the model list
+const DISCOVERY_DEBOUNCE_MS = 800;
 
 export function LLMSelector() {
-  const { config, setProvider, setModel, setApiKey, setBaseUrl, setTemperature, setMaxTokens, setOrganizationId } = useLLMStore();
+  const { config, setProvider, setModel, setApiKey, setBaseUrl, setTemperature, setMaxTokens, setOrganizationId, setPhaseModel, setCustomModels } = useLLMStore();
   const [showApiKey, setShowApiKey] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const { lists, loading, errors, refreshModels } = useModelListStore();
+  const vaultMode = useVaultStore((state) => state.mode);
+  const modelListKey = getModelListKey(config);
+  const hasModelList = !!lists[modelListKey];
 
   // Handle case where stored provider is no longer supported
   useEffect(() => {
@@ -30,6 +56,16 @@ export function LLMSelector() {
     }
   }, [config.provider, setProvider, setModel]);
 
+  // Fetch the provider's models once per provider/base URL; later updates use the refresh button
+  useEffect(() => {
+    const providerInfo = LLM_PROVIDERS[config.provider];
+    if (!providerInfo || hasModelList || (providerInfo.requiresApiKey && !config.apiKey)) {
+      return;
+    }
+    const timer = setTimeout(() => refreshModels(useLLMStore.getState().config), DISCOVERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [config.provider, config.baseUrl, config.apiKey, hasModelList, refreshModels]);
+
   const currentProviderInfo = LLM_PROVIDERS[config.provider];
   
   // Safety check - should not happen after useEffect
@@ -37,6 +73,36 @@ export function LLMSelector() {
     return null;
   }
 
+  // OpenAI-compatible servers host whatever models the user has pulled, so the list is user-defined
+  const isCustomEndpoint = config.provider === "openai-compatible";
+  const models = getAvailableModels(config, lists);
+  const modelList = lists[modelListKey];
+  const isLoadingModels = !!loading[modelListKey];
+  const modelListError = errors[modelListKey];
+
+  const commitCustomModels = (input: string) => {
+    const parsed = [...new Set(input.split(",").map(model => model.trim()).filter(Boolean))];
+    setCustomModels(parsed);
+  };
+
+  const baseUrlInput = (
+    <div className="space-y-2">
+      <Label htmlFor="baseUrl">Base URL {isCustomEndpoint ? "" : "(optional)"}</Label>
+      <Input
+        id="baseUrl"
+        type="text"
+        value={config.baseUrl || currentProviderInfo.defaultBaseUrl || ""}
+        onChange={(e) => setBaseUrl(e.target.value)}
+        placeholder={currentProviderInfo.defaultBaseUrl || "https://api.example.com"}
+      />
+      {isCustomEndpoint && (
+        <p className="text-xs text-muted-foreground">
+          e.g. Ollama http://localhost:11434/v1, LM Studio http://localhost:1234/v1
+        </p>
+      )}
+    </div>
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -44,6 +110,9 @@ export function LLMSelector() {
         <CardDescription>Configure your language model settings</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Saved profiles */}
+        <LLMProfiles />
+
         {/* Provider Selection */}
         <div className="space-y-2">
           <Label htmlFor="provider">Provider</Label>
@@ -61,27 +130,101 @@ export function LLMSelector() {
           </Select>
         </div>
 
+        {isCustomEndpoint && (
+          <>
+            {baseUrlInput}
+
+            {/* Models served by the endpoint */}
+            <div className="space-y-2">
+              <Label htmlFor="customModels">Additional models</Label>
+              <Input
+                id="customModels"
+                type="text"
+                // Re-mount when the list changes elsewhere (e.g. a profile switch)
+                key={(config.customModels || []).join(",")}
+                defaultValue={(config.customModels || []).join(", ")}
+                onBlur={(e) => commitCustomModels(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && commitCustomModels(e.currentTarget.value)}
+                placeholder="llama3.1, qwen2.5:14b"
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated names of models the server does not list
+              </p>
+            </div>
+          </>
+        )}
+
         {/* Model Selection */}
         <div className="space-y-2">
-          <Label htmlFor="model">Model</Label>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="model">Model</Label>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => refreshModels(config)}
+              disabled={isLoadingModels}
+              title="Refresh model list"
+            >
+              <RefreshCw className={`h-3 w-3 ${isLoadingModels ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
           <Select value={config.model} onValueChange={setModel}>
             <SelectTrigger id="model">
-              <SelectValue />
+              <SelectValue placeholder={isCustomEndpoint ? "No models found" : undefined} />
             </SelectTrigger>
             <SelectContent>
-              {currentProviderInfo.models.map((model) => (
+              {models.map((model) => (
                 <SelectItem key={model} value={model}>
                   {model}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          <p className={`text-xs ${modelListError ? "text-destructive" : "text-muted-foreground"}`}>
+            {modelListError
+              ? `${modelListError}${modelList ? "" : " - showing the built-in list"}`
+              : modelList
+                ? `${modelList.models.length} models, updated ${new Date(modelList.fetchedAt).toLocaleString()}`
+                : "Built-in model list"}
+          </p>
+        </div>
+
+        {/* Per-phase models */}
+        <div className="space-y-2">
+          <Label>Model per phase</Label>
+          {PHASES.map(({ phase, label, description }) => (
+            <div key={phase} className="flex items-center gap-2">
+              <span className="text-xs w-20 shrink-0" title={description}>
+                {label}
+              </span>
+              <Select
+                value={config.phaseModels?.[phase] || MAIN_MODEL_VALUE}
+                onValueChange={(value) => setPhaseModel(phase, value === MAIN_MODEL_VALUE ? null : value)}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MAIN_MODEL_VALUE}>Same as main model</SelectItem>
+                  {models.map((model) => (
+                    <SelectItem key={model} value={model}>
+                      {model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Use a cheaper model for routing and a stronger one for the final answer
+          </p>
         </div>
 
-        {/* API Key */}
-        {currentProviderInfo.requiresApiKey && (
+        {/* API Key - optional for local endpoints, which usually don't check it */}
+        {(currentProviderInfo.requiresApiKey || isCustomEndpoint) && (
           <div className="space-y-2">
-            <Label htmlFor="apiKey">API Key</Label>
+            <Label htmlFor="apiKey">API Key {currentProviderInfo.requiresApiKey ? "" : "(optional)"}</Label>
             <div className="relative">
               <Input
                 id="apiKey"
@@ -99,7 +242,7 @@ export function LLMSelector() {
               </button>
             </div>
             <p className="text-xs text-muted-foreground">
-              ⚠️ API keys are stored in browser localStorage
+              {KEY_STORAGE_NOTES[vaultMode]}
             </p>
           </div>
         )}
@@ -117,16 +260,7 @@ export function LLMSelector() {
           </CollapsibleTrigger>
           <CollapsibleContent className="space-y-4 pt-4">
             {/* Base URL (optional) */}
-            <div className="space-y-2">
-              <Label htmlFor="baseUrl">Base URL {config.provider === "openai" ? "(OpenAI only)" : ""}</Label>
-              <Input
-                id="baseUrl"
-                type="text"
-                value={config.baseUrl || currentProviderInfo.defaultBaseUrl || ""}
-                onChange={(e) => setBaseUrl(e.target.value)}
-                placeholder={currentProviderInfo.defaultBaseUrl || "https://api.example.com"}
-              />
-            </div>
+            {!isCustomEndpoint && baseUrlInput}
 
             {/* Temperature */}
         <div className="space-y-2">
@@ -157,6 +291,9 @@ export function LLMSelector() {
           />
         </div>
 
+            {/* Capability registry entry and overrides for the selected model */}
+            <ModelCapabilitiesEditor />
+
             {/* Organization ID (for OpenAI) */}
             {config.provider === "openai" && (
               <div className="space-y-2">
@@ -0,0 +1,120 @@
+/**
+ * Model Capabilities Editor Component
+ * Shows the capability registry's entry for the selected model and lets users override it
+ */
+
+import { useLLMStore } from "@/stores/llmStore";
+import type { ModelCapabilities } from "@/types/llm.types";
+import { getModelCapabilities, getRegistryCapabilities } from "@/utils/modelCapabilities";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type BooleanCapability = {
+  [K in keyof ModelCapabilities]: ModelCapabilities[K] extends boolean ? K : never;
+}[keyof ModelCapabilities];
+
+type NumericCapability = Exclude<keyof ModelCapabilities, BooleanCapability>;
+
+const BOOLEAN_CAPABILITIES: Array<{ key: BooleanCapability; label: string }> = [
+  { key: "supportsSystemMessage", label: "System message" },
+  { key: "supportsTemperature", label: "Temperature" },
+  { key: "supportsNativeTools", label: "Native tools" },
+  { key: "supportsVision", label: "Vision" },
+];
+
+const NUMERIC_CAPABILITIES: Array<{ key: NumericCapability; label: string }> = [
+  { key: "contextWindow", label: "Context window" },
+  { key: "maxOutputTokens", label: "Max output" },
+];
+
+// Radix Select does not allow an empty value
+const REGISTRY_VALUE = "__registry__";
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+}
+
+export function ModelCapabilitiesEditor() {
+  const { config, setCapabilityOverride } = useLLMStore();
+  const model = config.model;
+  if (!model) {
+    return null;
+  }
+
+  const registry = getRegistryCapabilities(config.provider, model);
+  const effective = getModelCapabilities(config.provider, model, config.capabilityOverrides);
+  const overrides = config.capabilityOverrides?.[model] || {};
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Model capabilities</Label>
+        {hasOverrides && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs"
+            onClick={() => (Object.keys(overrides) as Array<keyof ModelCapabilities>).forEach(key => setCapabilityOverride(model, key, null))}
+          >
+            Reset
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {BOOLEAN_CAPABILITIES.filter(({ key }) => effective[key]).map(({ key, label }) => (
+          <Badge key={key} variant="secondary" className="text-xs">
+            {label}
+          </Badge>
+        ))}
+        <Badge variant="outline" className="text-xs">
+          {formatTokens(effective.contextWindow)} context
+        </Badge>
+      </div>
+
+      {BOOLEAN_CAPABILITIES.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-2">
+          <span className="text-xs w-28 shrink-0">{label}</span>
+          <Select
+            value={key in overrides ? String(overrides[key]) : REGISTRY_VALUE}
+            onValueChange={(value) => setCapabilityOverride(model, key, value === REGISTRY_VALUE ? null : value === "true")}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={REGISTRY_VALUE}>Default ({registry[key] ? "yes" : "no"})</SelectItem>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+
+      {NUMERIC_CAPABILITIES.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-2">
+          <span className="text-xs w-28 shrink-0">{label}</span>
+          <Input
+            type="number"
+            className="h-8 text-xs"
+            min={1}
+            value={overrides[key] ?? ""}
+            placeholder={`${registry[key]} tokens`}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              setCapabilityOverride(model, key, value > 0 ? value : null);
+            }}
+          />
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Overrides apply to {model} only
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Model Fallback Settings Component
+ * Configures the ordered fallback models and the retry/backoff rule per error class
+ */
+
+import { useState } from "react";
+import { useLLMStore } from "@/stores/llmStore";
+import { useModelListStore, getAvailableModels } from "@/stores/modelListStore";
+import { LLM_PROVIDERS, type LLMErrorClass, type LLMFallback, type LLMProvider } from "@/types/llm.types";
+import { DEFAULT_RETRY_RULES, LLM_ERROR_CLASS_LABELS } from "@/utils/llmErrors";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, Plus, X } from "lucide-react";
+
+function FallbackEntry({ index, fallback, count }: { index: number; fallback: LLMFallback; count: number }) {
+  const { config, updateFallback, removeFallback, moveFallback } = useLLMStore();
+  const { lists } = useModelListStore();
+  const providerInfo = LLM_PROVIDERS[fallback.provider];
+  const suggestions = getAvailableModels({ ...fallback, customModels: config.customModels }, lists);
+  const listId = `fallback-models-${index}`;
+  const missingKey =
+    !!providerInfo?.requiresApiKey && !fallback.apiKey && !(fallback.provider === config.provider && config.apiKey);
+  const commitModel = (model: string) => {
+    if (model !== fallback.model) {
+      updateFallback(index, { model });
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-2 space-y-2">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-muted-foreground w-4 shrink-0">{index + 1}.</span>
+        <Select
+          value={fallback.provider}
+          onValueChange={(value) => updateFallback(index, { provider: value as LLMProvider, model: "", baseUrl: undefined })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(LLM_PROVIDERS).map((provider) => (
+              <SelectItem key={provider.id} value={provider.id}>
+                {provider.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => moveFallback(index, -1)} disabled={index === 0} title="Move up">
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => moveFallback(index, 1)} disabled={index === count - 1} title="Move down">
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => removeFallback(index)} title="Remove fallback">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <Input
+        className="h-8 text-xs"
+        list={listId}
+        // Applied on blur or Enter since every change rebuilds the agent; re-mount when changed elsewhere
+        key={`${fallback.provider}-${fallback.model}`}
+        defaultValue={fallback.model}
+        onBlur={(e) => commitModel(e.target.value.trim())}
+        onKeyDown={(e) => e.key === "Enter" && commitModel(e.currentTarget.value.trim())}
+        placeholder="Model"
+      />
+      <datalist id={listId}>
+        {suggestions.map((model) => (
+          <option key={model} value={model} />
+        ))}
+      </datalist>
+
+      <Input
+        className="h-8 text-xs"
+        type="password"
+        value={fallback.apiKey || ""}
+        onChange={(e) => updateFallback(index, { apiKey: e.target.value || undefined })}
+        placeholder={fallback.provider === config.provider ? "API key (default: main key)" : "API key"}
+      />
+      {missingKey && fallback.model && (
+        <p className="text-xs text-destructive">Skipped until it has an API key</p>
+      )}
+
+      {fallback.provider === "openai-compatible" && (
+        <Input
+          className="h-8 text-xs"
+          value={fallback.baseUrl || ""}
+          onChange={(e) => updateFallback(index, { baseUrl: e.target.value || undefined })}
+          placeholder={providerInfo?.defaultBaseUrl}
+        />
+      )}
+    </div>
+  );
+}
+
+export function ModelFallbackSettings() {
+  const { config, addFallback, setRetryRule } = useLLMStore();
+  const [showRetryRules, setShowRetryRules] = useState(false);
+  const fallbacks = config.fallbacks || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Model Fallbacks</CardTitle>
+        <CardDescription>Models to switch to when the main model keeps failing</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {fallbacks.length === 0 && (
+          <p className="text-xs text-muted-foreground">No fallbacks - provider errors end the run.</p>
+        )}
+        {fallbacks.map((fallback, index) => (
+          <FallbackEntry key={index} index={index} fallback={fallback} count={fallbacks.length} />
+        ))}
+        <Button variant="outline" size="sm" className="w-full" onClick={() => addFallback({ provider: config.provider, model: "" })}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add fallback
+        </Button>
+
+        <Collapsible open={showRetryRules} onOpenChange={setShowRetryRules}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="flex w-full items-center justify-between p-0 hover:bg-transparent">
+              <span className="text-sm font-medium">Retry Rules</span>
+              {showRetryRules ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2 pt-2">
+            <div className="grid grid-cols-[1fr_3rem_4.5rem_4rem] gap-1 text-xs text-muted-foreground">
+              <span>Error</span>
+              <span>Retries</span>
+              <span>Backoff ms</span>
+              <span>Fallback</span>
+            </div>
+            {(Object.keys(DEFAULT_RETRY_RULES) as LLMErrorClass[]).map((errorClass) => {
+              const rule = config.retryRules?.[errorClass] || DEFAULT_RETRY_RULES[errorClass];
+              const update = (change: Partial<typeof rule>) => setRetryRule(errorClass, { ...rule, ...change });
+              return (
+                <div key={errorClass} className="grid grid-cols-[1fr_3rem_4.5rem_4rem] gap-1 items-center">
+                  <Label className="text-xs font-normal">{LLM_ERROR_CLASS_LABELS[errorClass]}</Label>
+                  <Input
+                    type="number"
+                    className="h-7 text-xs px-1"
+                    min={0}
+                    max={10}
+                    value={rule.retries}
+                    onChange={(e) => update({ retries: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                  <Input
+                    type="number"
+                    className="h-7 text-xs px-1"
+                    min={0}
+                    step={500}
+                    value={rule.backoffMs}
+                    onChange={(e) => update({ backoffMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                  <Select value={rule.fallback ? "yes" : "no"} onValueChange={(value) => update({ fallback: value === "yes" })}>
+                    <SelectTrigger className="h-7 text-xs px-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="yes">Yes</SelectItem>
+                      <SelectItem value="no">No</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+            {config.retryRules && Object.keys(config.retryRules).length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => (Object.keys(config.retryRules || {}) as LLMErrorClass[]).forEach((errorClass) => setRetryRule(errorClass, null))}
+              >
+                Reset to defaults
+              </Button>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Backoff doubles with each retry; a provider's Retry-After header takes precedence
+            </p>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
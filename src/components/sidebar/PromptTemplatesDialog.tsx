@@ -0,0 +1,142 @@
+/**
+ * Prompt Templates Dialog Component
+ * Edits the agent's phase and planning-mode prompts with placeholder validation
+ */
+
+import { useState } from "react";
+import type { PromptTemplateName, PromptTemplates } from "@/types/agent.types";
+import { useAgentSettingsStore } from "@/stores/agentSettingsStore";
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_INFO,
+  PROMPT_TEMPLATE_NAMES,
+  validatePromptTemplate,
+} from "@/utils/promptTemplates";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { FileText, RotateCcw } from "lucide-react";
+
+export function PromptTemplatesDialog() {
+  const { promptTemplates, setPromptTemplate, resetPromptTemplate } = useAgentSettingsStore();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<PromptTemplateName>("analyze");
+  const [drafts, setDrafts] = useState<PromptTemplates>(DEFAULT_PROMPT_TEMPLATES);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setDrafts({ ...DEFAULT_PROMPT_TEMPLATES, ...promptTemplates });
+    }
+    setOpen(isOpen);
+  };
+
+  const errors = Object.fromEntries(
+    PROMPT_TEMPLATE_NAMES.map((name) => [name, validatePromptTemplate(name, drafts[name])])
+  ) as Record<PromptTemplateName, string[]>;
+  const hasErrors = PROMPT_TEMPLATE_NAMES.some((name) => errors[name].length > 0);
+  const info = PROMPT_TEMPLATE_INFO[selected];
+
+  const handleSave = () => {
+    for (const name of PROMPT_TEMPLATE_NAMES) {
+      // Templates equal to the default are not stored, so they follow future default changes
+      if (drafts[name] === DEFAULT_PROMPT_TEMPLATES[name]) {
+        resetPromptTemplate(name);
+      } else {
+        setPromptTemplate(name, drafts[name]);
+      }
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <FileText className="h-4 w-4 mr-2" />
+          Prompt Templates
+          {Object.keys(promptTemplates).length > 0 && (
+            <Badge variant="secondary" className="ml-2 text-xs">
+              {Object.keys(promptTemplates).length} edited
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prompt Templates</DialogTitle>
+          <DialogDescription>
+            The prompts the agent sends in each phase. Placeholders in braces are filled in by the agent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1 p-1 bg-muted rounded-lg">
+          {PROMPT_TEMPLATE_NAMES.map((name) => (
+            <Button
+              key={name}
+              variant={selected === name ? "default" : "ghost"}
+              size="sm"
+              className="flex-1"
+              onClick={() => setSelected(name)}
+            >
+              {PROMPT_TEMPLATE_INFO[name].label}
+              {errors[name].length > 0 && <span className="ml-1 text-destructive">!</span>}
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{info.description}</p>
+          {info.required.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              Required placeholders:
+              {info.required.map((placeholder) => (
+                <Badge key={placeholder} variant="outline" className="font-mono text-xs">
+                  {`{${placeholder}}`}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {info.optional.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              Optional placeholders:
+              {info.optional.map((placeholder) => (
+                <Badge key={placeholder} variant="secondary" className="font-mono text-xs">
+                  {`{${placeholder}}`}
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Textarea
+            className="font-mono text-xs min-h-[240px]"
+            value={drafts[selected]}
+            onChange={(e) => setDrafts({ ...drafts, [selected]: e.target.value })}
+          />
+          {errors[selected].map((error) => (
+            <p key={error} className="text-xs text-destructive">
+              {error}
+            </p>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="ghost"
+            className="mr-auto"
+            onClick={() => setDrafts({ ...drafts, [selected]: DEFAULT_PROMPT_TEMPLATES[selected] })}
+            disabled={drafts[selected] === DEFAULT_PROMPT_TEMPLATES[selected]}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Default
+          </Button>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={hasErrors}>
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,9 +6,15 @@
 
 import { useState, useEffect, useRef } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ConversationList } from "./ConversationList";
 import { LLMSelector } from "./LLMSelector";
+import { ModelFallbackSettings } from "./ModelFallbackSettings";
+import { AgentSettings } from "./AgentSettings";
+import { VaultSettings } from "./VaultSettings";
+import { UsageSettings } from "./UsageSettings";
 import { UTCPConfig } from "./UTCPConfig";
 import { CallTemplateList } from "./CallTemplateList";
+import { ToolApprovalSettings } from "./ToolApprovalSettings";
 import { GripVertical, AlertCircle } from "lucide-react";
 
 const MIN_WIDTH = 280;
@@ -71,9 +77,15 @@ export function Sidebar() {
       </div>
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-4">
+          <ConversationList />
           <LLMSelector />
+          <ModelFallbackSettings />
+          <AgentSettings />
+          <UsageSettings />
+          <VaultSettings />
           <UTCPConfig />
           <CallTemplateList />
+          <ToolApprovalSettings />
         </div>
       </ScrollArea>
 
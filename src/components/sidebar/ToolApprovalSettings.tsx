@@ -0,0 +1,156 @@
+/**
+ * Tool Approval Settings Component
+ * Configures whether tool calls need the user's approval, per tool or per manual
+ */
+
+import { useState } from "react";
+import { useApprovalStore } from "@/stores/approvalStore";
+import type { ToolApprovalPolicy } from "@/types/agent.types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+
+type RuleScope = "tool" | "manual";
+
+const POLICY_LABELS: Record<ToolApprovalPolicy, string> = {
+  ask: "Always ask",
+  auto: "Auto-approve",
+  deny: "Deny",
+};
+
+function PolicySelect({
+  value,
+  onChange,
+  className,
+}: {
+  value: ToolApprovalPolicy;
+  onChange: (policy: ToolApprovalPolicy) => void;
+  className?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ToolApprovalPolicy)}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+          <SelectItem key={policy} value={policy}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function ToolApprovalSettings() {
+  const {
+    defaultPolicy,
+    toolPolicies,
+    manualPolicies,
+    setDefaultPolicy,
+    setToolPolicy,
+    setManualPolicy,
+  } = useApprovalStore();
+  const [newScope, setNewScope] = useState<RuleScope>("manual");
+  const [newName, setNewName] = useState("");
+  const [newPolicy, setNewPolicy] = useState<ToolApprovalPolicy>("auto");
+
+  const rules = [
+    ...Object.entries(manualPolicies).map(([name, policy]) => ({ scope: "manual" as RuleScope, name, policy })),
+    ...Object.entries(toolPolicies).map(([name, policy]) => ({ scope: "tool" as RuleScope, name, policy })),
+  ];
+
+  const setRule = (scope: RuleScope, name: string, policy: ToolApprovalPolicy | null) => {
+    if (scope === "tool") {
+      setToolPolicy(name, policy);
+    } else {
+      setManualPolicy(name, policy);
+    }
+  };
+
+  const handleAddRule = () => {
+    if (newName.trim()) {
+      setRule(newScope, newName.trim(), newPolicy);
+      setNewName("");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Tool Approval</CardTitle>
+        <CardDescription>Choose which tool calls need your approval</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Default policy</Label>
+          <PolicySelect value={defaultPolicy} onChange={setDefaultPolicy} />
+          <p className="text-xs text-muted-foreground">
+            Tool rules take precedence over manual rules, which take precedence over the default
+          </p>
+        </div>
+
+        {rules.length > 0 && (
+          <div className="space-y-2 max-h-[200px] overflow-y-auto border rounded-md p-2">
+            {rules.map((rule) => (
+              <div key={`${rule.scope}:${rule.name}`} className="flex items-center gap-2 bg-muted/50 p-2 rounded">
+                <Badge variant="outline" className="text-xs">
+                  {rule.scope}
+                </Badge>
+                <span className="flex-1 text-sm font-mono truncate" title={rule.name}>
+                  {rule.name}
+                </span>
+                <PolicySelect
+                  value={rule.policy}
+                  onChange={(policy) => setRule(rule.scope, rule.name, policy)}
+                  className="h-7 w-[130px] text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setRule(rule.scope, rule.name, null)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border rounded-md p-3 bg-muted/20">
+          <Label className="text-xs">Add Rule</Label>
+          <div className="flex gap-2">
+            <Select value={newScope} onValueChange={(v) => setNewScope(v as RuleScope)}>
+              <SelectTrigger className="w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="manual">Manual</SelectItem>
+                <SelectItem value="tool">Tool</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={newScope === "tool" ? "manual.tool_name" : "manual_name"}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAddRule()}
+              className="flex-1"
+            />
+          </div>
+          <div className="flex gap-2">
+            <PolicySelect value={newPolicy} onChange={setNewPolicy} className="flex-1" />
+            <Button onClick={handleAddRule} size="icon">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
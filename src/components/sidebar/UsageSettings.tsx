@@ -0,0 +1,115 @@
+/**
+ * Usage Settings Component
+ * Edits the model price table used for cost estimates and the per-conversation budget
+ */
+
+import { useState } from "react";
+import { useUsageStore } from "@/stores/usageStore";
+import { useLLMStore } from "@/stores/llmStore";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp, Plus, RotateCcw, X } from "lucide-react";
+
+export function UsageSettings() {
+  const { prices, conversationBudget, setPrice, resetPrices, setConversationBudget } = useUsageStore();
+  const currentModel = useLLMStore((state) => state.config.model);
+  const [pricesOpen, setPricesOpen] = useState(false);
+  const [newModel, setNewModel] = useState("");
+
+  const models = Object.keys(prices).sort();
+
+  const handleAdd = () => {
+    const model = newModel.trim();
+    if (model && !prices[model]) {
+      setPrice(model, { input: 0, output: 0 });
+    }
+    setNewModel("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Usage & Costs</CardTitle>
+        <CardDescription>Estimated from the tokens reported by the provider</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="conversation-budget">Budget per conversation (USD)</Label>
+          <Input
+            id="conversation-budget"
+            type="number"
+            min={0}
+            step={0.1}
+            value={conversationBudget ?? ""}
+            onChange={(e) => setConversationBudget(e.target.value === "" ? null : Math.max(0, parseFloat(e.target.value) || 0))}
+            placeholder="No limit"
+          />
+          <p className="text-xs text-muted-foreground">The agent stops once the conversation's estimated cost reaches the budget.</p>
+        </div>
+
+        <Collapsible open={pricesOpen} onOpenChange={setPricesOpen}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="w-full justify-between px-0">
+              Prices per 1M tokens
+              {pricesOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2 pt-2">
+            <div className="grid grid-cols-[1fr_4.5rem_4.5rem_1.5rem] gap-1 text-xs text-muted-foreground">
+              <span>Model</span>
+              <span>Input</span>
+              <span>Output</span>
+              <span />
+            </div>
+            {models.map((model) => (
+              <div key={model} className="grid grid-cols-[1fr_4.5rem_4.5rem_1.5rem] gap-1 items-center">
+                <span className="text-xs font-mono truncate" title={model}>
+                  {model}
+                </span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  className="h-7 text-xs px-2"
+                  value={prices[model].input}
+                  onChange={(e) => setPrice(model, { ...prices[model], input: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  className="h-7 text-xs px-2"
+                  value={prices[model].output}
+                  onChange={(e) => setPrice(model, { ...prices[model], output: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setPrice(model, null)} title="Remove price">
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-1">
+              <Input
+                className="h-8 text-xs"
+                value={newModel}
+                onChange={(e) => setNewModel(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                placeholder={currentModel || "Model name"}
+              />
+              <Button variant="outline" size="sm" className="h-8" onClick={handleAdd} disabled={!newModel.trim()} title="Add price">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Models match the longest entry their name starts with, e.g. dated releases.</p>
+            <Button variant="outline" size="sm" className="w-full" onClick={resetPrices}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to default prices
+            </Button>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
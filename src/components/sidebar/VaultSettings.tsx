@@ -0,0 +1,221 @@
+/**
+ * Vault Settings Component
+ * Chooses how API keys and protected UTCP variables are stored, and locks/unlocks the encrypted vault
+ */
+
+import { useState } from "react";
+import { useVaultStore, type VaultMode } from "@/stores/vaultStore";
+import { useUtcpConfigStore } from "@/stores/utcpConfigStore";
+import { enableEncryptedVault, lockVault, resetVault, setUnencryptedMode, unlockVault } from "@/utils/secretVault";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Lock, LockOpen, ShieldCheck } from "lucide-react";
+
+const MODE_LABELS: Record<VaultMode, string> = {
+  plain: "Plain text in localStorage",
+  encrypted: "Encrypted with a passphrase",
+  session: "Session only, never persisted",
+};
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export function VaultSettings() {
+  const { mode, vault, key, protectedVariables, autoLockMinutes, setProtectedVariable, setAutoLockMinutes } = useVaultStore();
+  const variables = Object.keys((useUtcpConfigStore().configDict.variables as Record<string, string> | undefined) || {});
+  const [pendingMode, setPendingMode] = useState<VaultMode | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const isLocked = mode === "encrypted" && !!vault && !key;
+
+  const run = async (action: () => Promise<void> | void) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      setPassphrase("");
+      setConfirmation("");
+      setPendingMode(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleModeChange = (value: VaultMode) => {
+    setError("");
+    if (value === "encrypted") {
+      // Ask for a passphrase before switching
+      setPendingMode("encrypted");
+    } else {
+      run(() => setUnencryptedMode(value));
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    } else if (passphrase !== confirmation) {
+      setError("The passphrases do not match");
+    } else {
+      run(() => enableEncryptedVault(passphrase));
+    }
+  };
+
+  const handleReset = () => {
+    if (confirm("Delete the vault? The encrypted API keys and variables are lost and must be entered again.")) {
+      run(resetVault);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          Secrets
+          {mode === "encrypted" && (
+            <Badge variant={isLocked ? "destructive" : "secondary"} className="text-xs">
+              {isLocked ? "Locked" : "Unlocked"}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>How API keys and protected variables are stored</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLocked ? (
+          <div className="space-y-2">
+            <Label htmlFor="vault-unlock">Passphrase</Label>
+            <div className="flex gap-2">
+              <Input
+                id="vault-unlock"
+                type="password"
+                value={passphrase}
+                onChange={(e) => {
+                  setPassphrase(e.target.value);
+                  setError("");
+                }}
+                onKeyDown={(e) => e.key === "Enter" && passphrase && run(() => unlockVault(passphrase))}
+                placeholder="Unlock your API keys"
+              />
+              <Button size="sm" className="h-9" onClick={() => run(() => unlockVault(passphrase))} disabled={!passphrase || busy}>
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <LockOpen className="h-4 w-4" />}
+              </Button>
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs text-muted-foreground" onClick={handleReset}>
+              Forgot the passphrase? Delete the vault
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="vault-mode">Storage</Label>
+              <Select value={pendingMode ?? mode} onValueChange={(value) => handleModeChange(value as VaultMode)} disabled={busy}>
+                <SelectTrigger id="vault-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {mode === "session" && (
+                <p className="text-xs text-muted-foreground">Secrets are kept in memory and must be entered again after a reload.</p>
+              )}
+            </div>
+
+            {pendingMode === "encrypted" && (
+              <div className="space-y-2">
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => {
+                    setPassphrase(e.target.value);
+                    setError("");
+                  }}
+                  placeholder="New passphrase"
+                />
+                <Input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => {
+                    setConfirmation(e.target.value);
+                    setError("");
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && handleEnable()}
+                  placeholder="Repeat passphrase"
+                />
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" size="sm" onClick={() => setPendingMode(null)} disabled={busy}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleEnable} disabled={!passphrase || busy}>
+                    {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-1" />}
+                    Encrypt
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">The passphrase cannot be recovered.</p>
+              </div>
+            )}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            {mode === "encrypted" && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="vault-auto-lock" className="text-xs font-normal shrink-0">
+                  Auto-lock after
+                </Label>
+                <Input
+                  id="vault-auto-lock"
+                  type="number"
+                  className="h-8 w-20 text-xs"
+                  min={0}
+                  value={autoLockMinutes}
+                  onChange={(e) => setAutoLockMinutes(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+                <span className="text-xs text-muted-foreground">min idle</span>
+                <Button variant="outline" size="sm" className="h-8 ml-auto" onClick={lockVault} title="Lock now">
+                  <Lock className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-xs">Protected UTCP variables</Label>
+              {variables.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No variables defined</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {variables.map((name) => {
+                    const isProtected = protectedVariables.includes(name);
+                    return (
+                      <Badge
+                        key={name}
+                        variant={isProtected ? "default" : "outline"}
+                        className="text-xs font-mono cursor-pointer"
+                        onClick={() => setProtectedVariable(name, !isProtected)}
+                        title={isProtected ? "Protected like an API key - click to store as plain text" : "Stored as plain text - click to protect"}
+                      >
+                        {isProtected && <Lock className="h-3 w-3 mr-1" />}
+                        {name}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
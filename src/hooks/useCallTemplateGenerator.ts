@@ -7,10 +7,7 @@ import { useState } from "react";
 import { UtcpClient, UtcpManualSerializer, type Tool } from "@utcp/sdk";
 import { addFunctionToUtcpDirectCall } from "@utcp/direct-call";
 import { SimplifiedUtcpAgent } from "@/agent/SimplifiedUtcpAgent";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
-import type { BaseLanguageModel } from "@langchain/core/language_models/base";
+import { createLLM } from "@/utils/llmFactory";
 import type { LLMConfig } from "@/types/llm.types";
 import { useUtcpConfigStore } from "@/stores/utcpConfigStore";
 import { TextCallTemplateSerializer } from "@utcp/text";
@@ -68,43 +65,8 @@ export function useCallTemplateGenerator() {
       });
 
       // Create LLM for the generator agent using configured provider
-      let llm: BaseLanguageModel;
-      
-      switch (llmConfig.provider) {
-        case "openai":
-          llm = new ChatOpenAI({
-            modelName: llmConfig.model,
-            apiKey: llmConfig.apiKey,
-            temperature: 0.2, // Lower temperature for more consistent output
-            maxTokens: llmConfig.maxTokens,
-            configuration: {
-              baseURL: llmConfig.baseUrl,
-              organization: llmConfig.organizationId,
-            },
-          });
-          break;
-        
-        case "anthropic":
-          llm = new ChatAnthropic({
-            modelName: llmConfig.model,
-            apiKey: llmConfig.apiKey,
-            temperature: 0.2,
-            maxTokens: llmConfig.maxTokens,
-          });
-          break;
-        
-        case "google":
-          llm = new ChatGoogleGenerativeAI({
-            model: llmConfig.model,
-            apiKey: llmConfig.apiKey,
-            temperature: 0.2,
-            maxOutputTokens: llmConfig.maxTokens,
-          });
-          break;
-        
-        default:
-          throw new Error(`Provider ${llmConfig.provider} is not yet supported for template generation.`);
-      }
+      // Lower temperature for more consistent output
+      const llm = createLLM({ ...llmConfig, temperature: 0.2 });
 
       // Create simplified agent
       const agent = new SimplifiedUtcpAgent(llm, client, {
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_AGENT_CONFIG } from "@/types/agent.types";
+import type { UtcpAgentConfig } from "@/types/agent.types";
+import { useAgentSettingsStore } from "./agentSettingsStore";
+
+describe("agentSettingsStore", () => {
+  beforeEach(() => {
+    useAgentSettingsStore.setState({
+      agentConfig: DEFAULT_AGENT_CONFIG,
+      promptTemplates: {},
+      presets: [],
+      activePresetId: null,
+    });
+  });
+
+  it("updates single options and resets them to the defaults", () => {
+    useAgentSettingsStore.getState().updateAgentConfig({ maxIterations: 12, recursionLimit: 40 });
+    expect(useAgentSettingsStore.getState().agentConfig).toEqual({ ...DEFAULT_AGENT_CONFIG, maxIterations: 12, recursionLimit: 40 });
+    useAgentSettingsStore.getState().resetAgentConfig();
+    expect(useAgentSettingsStore.getState().agentConfig).toEqual(DEFAULT_AGENT_CONFIG);
+  });
+
+  it("keeps only edited prompt templates", () => {
+    const { setPromptTemplate, resetPromptTemplate } = useAgentSettingsStore.getState();
+    setPromptTemplate("respond", "Be brief.");
+    setPromptTemplate("analyze", "What next?");
+    resetPromptTemplate("analyze");
+    expect(useAgentSettingsStore.getState().promptTemplates).toEqual({ respond: "Be brief." });
+  });
+
+  it("saves the options and templates as a preset and switches back to it", () => {
+    useAgentSettingsStore.getState().updateAgentConfig({ maxToolsPerSearch: 20 });
+    useAgentSettingsStore.getState().setPromptTemplate("respond", "Be brief.");
+    useAgentSettingsStore.getState().savePreset("Research");
+    const [preset] = useAgentSettingsStore.getState().presets;
+    expect(useAgentSettingsStore.getState().activePresetId).toBe(preset.id);
+
+    useAgentSettingsStore.getState().resetAgentConfig();
+    useAgentSettingsStore.getState().resetPromptTemplate("respond");
+    useAgentSettingsStore.getState().switchPreset(preset.id);
+    expect(useAgentSettingsStore.getState().agentConfig.maxToolsPerSearch).toBe(20);
+    expect(useAgentSettingsStore.getState().promptTemplates).toEqual({ respond: "Be brief." });
+  });
+
+  it("fills in options a preset was saved without", () => {
+    const olderConfig: Partial<UtcpAgentConfig> = { ...DEFAULT_AGENT_CONFIG };
+    delete olderConfig.recursionLimit;
+    useAgentSettingsStore.setState({
+      presets: [{ id: "old", name: "Old", agentConfig: { ...olderConfig, maxIterations: 8 } as UtcpAgentConfig, promptTemplates: {} }],
+    });
+    useAgentSettingsStore.getState().switchPreset("old");
+    expect(useAgentSettingsStore.getState().agentConfig).toEqual({ ...DEFAULT_AGENT_CONFIG, maxIterations: 8 });
+  });
+
+  it("updates only the active preset and forgets it when deleted", () => {
+    const store = useAgentSettingsStore.getState();
+    store.savePreset("First");
+    store.savePreset("Second");
+    useAgentSettingsStore.getState().updateAgentConfig({ maxResultTokens: 8000 });
+    useAgentSettingsStore.getState().updateActivePreset();
+    const presets = useAgentSettingsStore.getState().presets;
+    expect(presets.map((preset) => preset.agentConfig.maxResultTokens)).toEqual([4000, 8000]);
+
+    useAgentSettingsStore.getState().deletePreset(presets[1].id);
+    expect(useAgentSettingsStore.getState().presets.map((preset) => preset.name)).toEqual(["First"]);
+    expect(useAgentSettingsStore.getState().activePresetId).toBeNull();
+  });
+});
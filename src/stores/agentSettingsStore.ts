@@ -0,0 +1,105 @@
+/**
+ * Agent Settings Store
+ * Persisted options controlling how the agent runs, and named presets of them
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_AGENT_CONFIG } from "@/types/agent.types";
+import type { AgentPreset, PromptTemplateName, PromptTemplates, UtcpAgentConfig } from "@/types/agent.types";
+
+interface AgentSettingsStore {
+  /** Plan first, let the user review the plan, then execute it step by step */
+  planningMode: boolean;
+  agentConfig: UtcpAgentConfig;
+  /** Edited prompt templates; templates not in here use the defaults */
+  promptTemplates: Partial<PromptTemplates>;
+  presets: AgentPreset[];
+  /** Preset the current settings were loaded from or last saved to */
+  activePresetId: string | null;
+
+  setPlanningMode: (planningMode: boolean) => void;
+  updateAgentConfig: (config: Partial<UtcpAgentConfig>) => void;
+  resetAgentConfig: () => void;
+  setPromptTemplate: (name: PromptTemplateName, template: string) => void;
+  /** Go back to the default text of a template */
+  resetPromptTemplate: (name: PromptTemplateName) => void;
+
+  // Presets
+  /** Save the current settings as a new preset and make it active */
+  savePreset: (name: string) => void;
+  /** Overwrite the active preset with the current settings */
+  updateActivePreset: () => void;
+  switchPreset: (id: string) => void;
+  renamePreset: (id: string, name: string) => void;
+  deletePreset: (id: string) => void;
+}
+
+export const useAgentSettingsStore = create<AgentSettingsStore>()(
+  persist(
+    (set) => ({
+      planningMode: false,
+      agentConfig: DEFAULT_AGENT_CONFIG,
+      promptTemplates: {},
+      presets: [],
+      activePresetId: null,
+
+      setPlanningMode: (planningMode) => set({ planningMode }),
+      updateAgentConfig: (config) =>
+        set((state) => ({ agentConfig: { ...state.agentConfig, ...config } })),
+      resetAgentConfig: () => set({ agentConfig: DEFAULT_AGENT_CONFIG }),
+      setPromptTemplate: (name, template) =>
+        set((state) => ({ promptTemplates: { ...state.promptTemplates, [name]: template } })),
+      resetPromptTemplate: (name) =>
+        set((state) => {
+          const promptTemplates = { ...state.promptTemplates };
+          delete promptTemplates[name];
+          return { promptTemplates };
+        }),
+
+      savePreset: (name) =>
+        set((state) => {
+          const preset: AgentPreset = {
+            id: crypto.randomUUID(),
+            name,
+            agentConfig: state.agentConfig,
+            promptTemplates: state.promptTemplates,
+          };
+          return { presets: [...state.presets, preset], activePresetId: preset.id };
+        }),
+      updateActivePreset: () =>
+        set((state) => ({
+          presets: state.presets.map((preset) =>
+            preset.id === state.activePresetId
+              ? { ...preset, agentConfig: state.agentConfig, promptTemplates: state.promptTemplates }
+              : preset
+          ),
+        })),
+      switchPreset: (id) =>
+        set((state) => {
+          const preset = state.presets.find((p) => p.id === id);
+          if (!preset) {
+            return state;
+          }
+          return {
+            // Presets saved before an option existed get its default
+            agentConfig: { ...DEFAULT_AGENT_CONFIG, ...preset.agentConfig },
+            promptTemplates: preset.promptTemplates,
+            activePresetId: id,
+          };
+        }),
+      renamePreset: (id, name) =>
+        set((state) => ({
+          presets: state.presets.map((preset) => (preset.id === id ? { ...preset, name } : preset)),
+        })),
+      deletePreset: (id) =>
+        set((state) => ({
+          presets: state.presets.filter((preset) => preset.id !== id),
+          activePresetId: state.activePresetId === id ? null : state.activePresetId,
+        })),
+    }),
+    {
+      name: "agent-settings-storage",
+    }
+  )
+);
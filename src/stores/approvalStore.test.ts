@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useApprovalStore } from "./approvalStore";
+
+describe("approvalStore", () => {
+  beforeEach(() => {
+    useApprovalStore.setState({ defaultPolicy: "ask", toolPolicies: {}, manualPolicies: {} });
+  });
+
+  it("uses the default policy without rules", () => {
+    expect(useApprovalStore.getState().getPolicy("weather.get_forecast", "weather")).toBe("ask");
+    useApprovalStore.getState().setDefaultPolicy("auto");
+    expect(useApprovalStore.getState().getPolicy("weather.get_forecast", "weather")).toBe("auto");
+  });
+
+  it("prefers a tool rule over a manual rule over the default", () => {
+    const { setManualPolicy, setToolPolicy } = useApprovalStore.getState();
+    setManualPolicy("weather", "deny");
+    expect(useApprovalStore.getState().getPolicy("weather.get_forecast", "weather")).toBe("deny");
+    expect(useApprovalStore.getState().getPolicy("news.headlines", "news")).toBe("ask");
+
+    setToolPolicy("weather.get_forecast", "auto");
+    expect(useApprovalStore.getState().getPolicy("weather.get_forecast", "weather")).toBe("auto");
+    expect(useApprovalStore.getState().getPolicy("weather.get_alerts", "weather")).toBe("deny");
+  });
+
+  it("removes a rule when its policy is cleared", () => {
+    const { setToolPolicy } = useApprovalStore.getState();
+    setToolPolicy("weather.get_forecast", "deny");
+    setToolPolicy("weather.get_forecast", null);
+    expect(useApprovalStore.getState().toolPolicies).toEqual({});
+    expect(useApprovalStore.getState().getPolicy("weather.get_forecast", "weather")).toBe("ask");
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tool Approval Store
+ * Persisted approval policies for tool calls, configurable per tool or per manual
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { ToolApprovalPolicy } from "@/types/agent.types";
+
+interface ApprovalStore {
+  defaultPolicy: ToolApprovalPolicy;
+  toolPolicies: Record<string, ToolApprovalPolicy>;
+  manualPolicies: Record<string, ToolApprovalPolicy>;
+  setDefaultPolicy: (policy: ToolApprovalPolicy) => void;
+  setToolPolicy: (toolName: string, policy: ToolApprovalPolicy | null) => void;
+  setManualPolicy: (manualName: string, policy: ToolApprovalPolicy | null) => void;
+  /** Resolve the effective policy: tool rule, then manual rule, then default */
+  getPolicy: (toolName: string, manualName: string) => ToolApprovalPolicy;
+}
+
+const withPolicy = (
+  policies: Record<string, ToolApprovalPolicy>,
+  key: string,
+  policy: ToolApprovalPolicy | null
+): Record<string, ToolApprovalPolicy> => {
+  const next = { ...policies };
+  delete next[key];
+  if (policy) {
+    next[key] = policy;
+  }
+  return next;
+};
+
+export const useApprovalStore = create<ApprovalStore>()(
+  persist(
+    (set, get) => ({
+      defaultPolicy: "ask",
+      toolPolicies: {},
+      manualPolicies: {},
+      setDefaultPolicy: (defaultPolicy) => set({ defaultPolicy }),
+      setToolPolicy: (toolName, policy) =>
+        set((state) => ({ toolPolicies: withPolicy(state.toolPolicies, toolName, policy) })),
+      setManualPolicy: (manualName, policy) =>
+        set((state) => ({ manualPolicies: withPolicy(state.manualPolicies, manualName, policy) })),
+      getPolicy: (toolName, manualName) => {
+        const { toolPolicies, manualPolicies, defaultPolicy } = get();
+        return toolPolicies[toolName] || manualPolicies[manualName] || defaultPolicy;
+      },
+    }),
+    {
+      name: "tool-approval-storage",
+    }
+  )
+);
@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import type { Message, ToolCall } from "@/types/chat.types";
+import type { AgentActivity, AgentPlan, ToolApprovalRequest, UserInputRequest } from "@/types/agent.types";
 
 /**
  * Agent metadata for UI display
@@ -19,22 +20,60 @@ interface ChatStore {
   messages: Message[];
   isStreaming: boolean;
   currentStreamingMessage: string;
+  /** Partial assistant response text while the final answer streams in */
+  streamingContent: string;
+  /** Tool call waiting for the user's approval, if any */
+  pendingApproval: ToolApprovalRequest | null;
+  /** Tool parameters the agent is waiting for the user to provide, if any */
+  pendingUserInput: UserInputRequest | null;
+  /** Plan of the current run in planning mode */
+  currentPlan: AgentPlan | null;
+  /** Whether the current plan is waiting for the user to review it */
+  planAwaitingReview: boolean;
   agentMetadata: AgentMetadata;
+  /** Activity timeline of the current run */
+  currentActivity: AgentActivity[];
+  activityPanelOpen: boolean;
+  /** Message whose activity the panel shows; null shows the current or latest run */
+  activityMessageId: string | null;
+  /** Whether the agent inspector (internal history and prompts) is open */
+  inspectorOpen: boolean;
   addMessage: (message: Omit<Message, "id" | "timestamp">) => void;
+  /** Replace all messages, e.g. with those of another conversation */
+  setMessages: (messages: Message[]) => void;
   updateLastMessage: (content: string) => void;
   addToolCallToLastMessage: (toolCall: ToolCall) => void;
   setStreaming: (isStreaming: boolean) => void;
   setCurrentStreamingMessage: (message: string) => void;
+  appendStreamingContent: (delta: string) => void;
+  clearStreamingContent: () => void;
+  setPendingApproval: (request: ToolApprovalRequest | null) => void;
+  setPendingUserInput: (request: UserInputRequest | null) => void;
+  setCurrentPlan: (plan: AgentPlan | null) => void;
+  setPlanAwaitingReview: (awaitingReview: boolean) => void;
   updateAgentMetadata: (metadata: Partial<AgentMetadata>) => void;
   clearMessages: () => void;
   clearAgentMetadata: () => void;
+  setCurrentActivity: (activity: AgentActivity[]) => void;
+  setActivityPanelOpen: (open: boolean) => void;
+  setActivityMessageId: (messageId: string | null) => void;
+  setInspectorOpen: (open: boolean) => void;
 }
 
 export const useChatStore = create<ChatStore>((set) => ({
   messages: [],
   isStreaming: false,
   currentStreamingMessage: "",
+  streamingContent: "",
+  pendingApproval: null,
+  pendingUserInput: null,
+  currentPlan: null,
+  planAwaitingReview: false,
   agentMetadata: {},
+  currentActivity: [],
+  activityPanelOpen: false,
+  activityMessageId: null,
+  inspectorOpen: false,
   
   addMessage: (message) =>
     set((state) => ({
@@ -48,6 +87,8 @@ export const useChatStore = create<ChatStore>((set) => ({
       ],
     })),
   
+  setMessages: (messages) => set({ messages, currentStreamingMessage: "", streamingContent: "", activityMessageId: null }),
+  
   updateLastMessage: (content) =>
     set((state) => {
       const messages = [...state.messages];
@@ -78,12 +119,33 @@ export const useChatStore = create<ChatStore>((set) => ({
   setCurrentStreamingMessage: (currentStreamingMessage) =>
     set({ currentStreamingMessage }),
   
+  appendStreamingContent: (delta) =>
+    set((state) => ({ streamingContent: state.streamingContent + delta })),
+  
+  clearStreamingContent: () => set({ streamingContent: "" }),
+  
+  setPendingApproval: (pendingApproval) => set({ pendingApproval }),
+  
+  setPendingUserInput: (pendingUserInput) => set({ pendingUserInput }),
+  
+  setCurrentPlan: (currentPlan) => set({ currentPlan }),
+  
+  setPlanAwaitingReview: (planAwaitingReview) => set({ planAwaitingReview }),
+  
   updateAgentMetadata: (metadata) =>
     set((state) => ({
       agentMetadata: { ...state.agentMetadata, ...metadata },
     })),
   
-  clearMessages: () => set({ messages: [], currentStreamingMessage: "" }),
+  clearMessages: () => set({ messages: [], currentStreamingMessage: "", streamingContent: "", activityMessageId: null }),
   
   clearAgentMetadata: () => set({ agentMetadata: {} }),
+  
+  setCurrentActivity: (currentActivity) => set({ currentActivity }),
+  
+  setActivityPanelOpen: (activityPanelOpen) => set({ activityPanelOpen }),
+  
+  setActivityMessageId: (activityMessageId) => set({ activityMessageId }),
+  
+  setInspectorOpen: (inspectorOpen) => set({ inspectorOpen }),
 }));
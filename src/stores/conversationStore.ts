@@ -0,0 +1,170 @@
+/**
+ * Conversation Store
+ * The list of saved conversations and which one is open. Contents are kept in
+ * IndexedDB; the open conversation's messages live in chatStore.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { StoredMessage } from "@langchain/core/messages";
+import type { ConversationSummary } from "@/types/chat.types";
+import { useChatStore } from "@/stores/chatStore";
+import * as conversationDb from "@/utils/conversationDb";
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+const MAX_TITLE_LENGTH = 50;
+
+interface ConversationStore {
+  /** Most recently updated first */
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  /** Agent history of the open conversation as last saved */
+  agentHistory: StoredMessage[];
+  /** Incremented whenever another history is loaded (open, create, clear) so the agent can restore it */
+  historyRevision: number;
+  isLoaded: boolean;
+  /** Read the conversation list and open the last active conversation */
+  loadConversations: () => Promise<void>;
+  /** Open a new, empty conversation; an empty open conversation is reused */
+  createConversation: () => Promise<void>;
+  openConversation: (id: string) => Promise<void>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  /** Save the open conversation's messages together with the agent's history */
+  saveActiveConversation: (agentHistory: StoredMessage[]) => Promise<void>;
+  /** Remove all messages and agent history from the open conversation */
+  clearActiveConversation: () => Promise<void>;
+}
+
+function createSummary(): ConversationSummary {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), title: DEFAULT_CONVERSATION_TITLE, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Title from the first user message, for conversations that were not renamed
+ */
+function deriveTitle(summary: ConversationSummary): string {
+  if (summary.title !== DEFAULT_CONVERSATION_TITLE) {
+    return summary.title;
+  }
+  const firstMessage = useChatStore.getState().messages.find(message => message.role === "user")?.content.trim();
+  if (!firstMessage) {
+    return summary.title;
+  }
+  const line = firstMessage.split("\n")[0];
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+function upsertSummary(conversations: ConversationSummary[], summary: ConversationSummary): ConversationSummary[] {
+  return [summary, ...conversations.filter(conversation => conversation.id !== summary.id)].sort(
+    (a, b) => b.updatedAt - a.updatedAt
+  );
+}
+
+export const useConversationStore = create<ConversationStore>()(
+  persist(
+    (set, get) => ({
+      conversations: [],
+      activeConversationId: null,
+      agentHistory: [],
+      historyRevision: 0,
+      isLoaded: false,
+
+      loadConversations: async () => {
+        const conversations = await conversationDb.listConversations();
+        set({ conversations, isLoaded: true });
+        const { activeConversationId } = get();
+        const active = conversations.find(conversation => conversation.id === activeConversationId) ?? conversations[0];
+        if (active) {
+          await get().openConversation(active.id);
+        } else {
+          await get().createConversation();
+        }
+      },
+
+      createConversation: async () => {
+        const { activeConversationId, conversations } = get();
+        if (activeConversationId && useChatStore.getState().messages.length === 0) {
+          return;
+        }
+        const summary = createSummary();
+        await conversationDb.saveConversation(summary, { id: summary.id, messages: [], agentHistory: [] });
+        useChatStore.getState().setMessages([]);
+        useChatStore.getState().clearAgentMetadata();
+        set((state) => ({
+          conversations: upsertSummary(conversations, summary),
+          activeConversationId: summary.id,
+          agentHistory: [],
+          historyRevision: state.historyRevision + 1,
+        }));
+      },
+
+      openConversation: async (id) => {
+        const data = await conversationDb.loadConversationData(id);
+        useChatStore.getState().setMessages(data?.messages || []);
+        useChatStore.getState().clearAgentMetadata();
+        set((state) => ({
+          activeConversationId: id,
+          agentHistory: data?.agentHistory || [],
+          historyRevision: state.historyRevision + 1,
+        }));
+      },
+
+      renameConversation: async (id, title) => {
+        const summary = get().conversations.find(conversation => conversation.id === id);
+        const trimmed = title.trim();
+        if (!summary || !trimmed) {
+          return;
+        }
+        const renamed = { ...summary, title: trimmed };
+        await conversationDb.saveConversation(renamed);
+        set((state) => ({
+          conversations: state.conversations.map(conversation => (conversation.id === id ? renamed : conversation)),
+        }));
+      },
+
+      deleteConversation: async (id) => {
+        await conversationDb.deleteConversation(id);
+        const conversations = get().conversations.filter(conversation => conversation.id !== id);
+        set({ conversations });
+        if (get().activeConversationId === id) {
+          if (conversations.length > 0) {
+            await get().openConversation(conversations[0].id);
+          } else {
+            set({ activeConversationId: null });
+            useChatStore.getState().setMessages([]);
+            await get().createConversation();
+          }
+        }
+      },
+
+      saveActiveConversation: async (agentHistory) => {
+        const { activeConversationId, conversations } = get();
+        if (!activeConversationId) {
+          return;
+        }
+        const current = conversations.find(conversation => conversation.id === activeConversationId) ?? {
+          ...createSummary(),
+          id: activeConversationId,
+        };
+        const summary = { ...current, title: deriveTitle(current), updatedAt: Date.now() };
+        const messages = useChatStore.getState().messages;
+        set((state) => ({ conversations: upsertSummary(state.conversations, summary), agentHistory }));
+        await conversationDb.saveConversation(summary, { id: activeConversationId, messages, agentHistory });
+      },
+
+      clearActiveConversation: async () => {
+        useChatStore.getState().setMessages([]);
+        useChatStore.getState().clearAgentMetadata();
+        set((state) => ({ agentHistory: [], historyRevision: state.historyRevision + 1 }));
+        await get().saveActiveConversation([]);
+      },
+    }),
+    {
+      name: "conversation-storage",
+      partialize: ({ activeConversationId }) => ({ activeConversationId }),
+    }
+  )
+);
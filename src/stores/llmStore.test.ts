@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { LLMConfig } from "@/types/llm.types";
+import { useLLMStore } from "./llmStore";
+
+const config: LLMConfig = {
+  provider: "openai",
+  model: "gpt-4o",
+  apiKey: "sk-main",
+  temperature: 0.7,
+  maxTokens: 2000,
+  fallbacks: [{ provider: "anthropic", model: "claude-sonnet-4-5", apiKey: "sk-ant-fallback" }],
+};
+
+describe("llmStore profiles", () => {
+  beforeEach(() => {
+    useLLMStore.setState({ config, profiles: [], activeProfileId: null });
+  });
+
+  it("saves the current config and switches back to it", () => {
+    useLLMStore.getState().saveProfile("Default");
+    const { profiles, activeProfileId } = useLLMStore.getState();
+    expect(profiles).toHaveLength(1);
+    expect(activeProfileId).toBe(profiles[0].id);
+
+    useLLMStore.getState().setModel("gpt-4o-mini");
+    useLLMStore.getState().switchProfile(profiles[0].id);
+    expect(useLLMStore.getState().config.model).toBe("gpt-4o");
+  });
+
+  it("overwrites only the active profile", () => {
+    useLLMStore.getState().saveProfile("First");
+    useLLMStore.getState().saveProfile("Second");
+    useLLMStore.getState().setModel("gpt-4o-mini");
+    useLLMStore.getState().updateActiveProfile();
+    expect(useLLMStore.getState().profiles.map((profile) => profile.config.model)).toEqual(["gpt-4o", "gpt-4o-mini"]);
+  });
+
+  it("clears the active profile when it is deleted", () => {
+    useLLMStore.getState().saveProfile("Default");
+    const [profile] = useLLMStore.getState().profiles;
+    useLLMStore.getState().renameProfile(profile.id, "Renamed");
+    expect(useLLMStore.getState().profiles[0].name).toBe("Renamed");
+
+    useLLMStore.getState().deleteProfile(profile.id);
+    expect(useLLMStore.getState().profiles).toEqual([]);
+    expect(useLLMStore.getState().activeProfileId).toBeNull();
+  });
+
+  it("exports profiles without API keys", () => {
+    useLLMStore.getState().saveProfile("Default");
+    const exported = useLLMStore.getState().exportProfiles();
+    expect(exported).not.toContain("sk-");
+    expect(JSON.parse(exported)).toMatchObject({
+      version: 1,
+      profiles: [{ name: "Default", config: { model: "gpt-4o", fallbacks: [{ model: "claude-sonnet-4-5" }] } }],
+    });
+  });
+
+  it("imports exported profiles as new ones, ignoring keys in the file", () => {
+    useLLMStore.getState().saveProfile("Default");
+    const exported = useLLMStore.getState().exportProfiles();
+    expect(useLLMStore.getState().importProfiles(exported)).toBe(1);
+    expect(useLLMStore.getState().importProfiles(JSON.stringify([{ name: "Keyed", config }]))).toBe(1);
+
+    const { profiles } = useLLMStore.getState();
+    expect(profiles.map((profile) => profile.name)).toEqual(["Default", "Default", "Keyed"]);
+    expect(new Set(profiles.map((profile) => profile.id)).size).toBe(3);
+    expect(profiles[2].config.apiKey).toBeUndefined();
+    expect(profiles[2].config.fallbacks?.[0].apiKey).toBeUndefined();
+  });
+
+  it("rejects invalid imports without changing the profiles", () => {
+    const { importProfiles } = useLLMStore.getState();
+    expect(() => importProfiles('{"version":1}')).toThrow(/Expected a list of profiles/);
+    expect(() => importProfiles('[{"name":"No config"}]')).toThrow(/needs a name and a config/);
+    expect(() => importProfiles(JSON.stringify([{ name: "Odd", config: { ...config, provider: "acme" } }]))).toThrow(
+      'Profile "Odd" uses an unknown provider: acme'
+    );
+    expect(useLLMStore.getState().profiles).toEqual([]);
+  });
+});
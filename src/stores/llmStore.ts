@@ -1,10 +1,25 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { LLMConfig, LLMProvider } from "@/types/llm.types";
+import { LLM_PROVIDERS } from "@/types/llm.types";
+import { persistsPlainSecrets } from "@/stores/vaultStore";
+import { stripLLMSecrets } from "@/utils/secrets";
+import type {
+  LLMConfig,
+  LLMErrorClass,
+  LLMFallback,
+  LLMPhase,
+  LLMProfile,
+  LLMProvider,
+  LLMRetryRule,
+  ModelCapabilities,
+} from "@/types/llm.types";
 
 interface LLMStore {
   config: LLMConfig;
   isHydrated: boolean;
+  profiles: LLMProfile[];
+  /** Profile the current config was loaded from or last saved to */
+  activeProfileId: string | null;
   setProvider: (provider: LLMProvider) => void;
   setModel: (model: string) => void;
   setApiKey: (apiKey: string) => void;
@@ -15,8 +30,58 @@ interface LLMStore {
   setFrequencyPenalty: (frequencyPenalty: number) => void;
   setPresencePenalty: (presencePenalty: number) => void;
   setOrganizationId: (organizationId: string) => void;
+  setPhaseModel: (phase: LLMPhase, model: string | null) => void;
+  setCustomModels: (models: string[]) => void;
+  /** Override one registry capability of a model; null restores the registry value */
+  setCapabilityOverride: <K extends keyof ModelCapabilities>(model: string, key: K, value: ModelCapabilities[K] | null) => void;
+  addFallback: (fallback: LLMFallback) => void;
+  updateFallback: (index: number, fallback: Partial<LLMFallback>) => void;
+  removeFallback: (index: number) => void;
+  /** Move a fallback one position up (-1) or down (1) in the chain */
+  moveFallback: (index: number, direction: -1 | 1) => void;
+  /** Set the retry rule of an error class; null restores the default rule */
+  setRetryRule: (errorClass: LLMErrorClass, rule: LLMRetryRule | null) => void;
   updateConfig: (config: Partial<LLMConfig>) => void;
   resetConfig: () => void;
+
+  // Profiles
+  /** Save the current config as a new profile and make it active */
+  saveProfile: (name: string) => void;
+  /** Overwrite the active profile with the current config */
+  updateActiveProfile: () => void;
+  switchProfile: (id: string) => void;
+  renameProfile: (id: string, name: string) => void;
+  deleteProfile: (id: string) => void;
+  /** Import profiles exported with exportProfiles; returns the number imported */
+  importProfiles: (json: string) => number;
+  /** Export all profiles as JSON, without API keys */
+  exportProfiles: () => string;
+}
+
+const PROFILE_EXPORT_VERSION = 1;
+
+/**
+ * Copy of a config without secrets, for export
+ */
+function withoutSecrets(config: LLMConfig): LLMConfig {
+  return {
+    ...config,
+    apiKey: undefined,
+    fallbacks: config.fallbacks?.map((fallback) => ({ ...fallback, apiKey: undefined })),
+  };
+}
+
+function parseProfile(value: unknown): LLMProfile {
+  const profile = value as Partial<LLMProfile> | null;
+  const config = profile?.config;
+  if (!profile || typeof profile.name !== "string" || !config || typeof config.model !== "string") {
+    throw new Error("Each profile needs a name and a config with a model");
+  }
+  if (!LLM_PROVIDERS[config.provider]) {
+    throw new Error(`Profile "${profile.name}" uses an unknown provider: ${config.provider}`);
+  }
+  // Never trust keys from a file, even though exports don't contain them
+  return { id: crypto.randomUUID(), name: profile.name, config: withoutSecrets(config) };
 }
 
 const defaultConfig: LLMConfig = {
@@ -31,11 +96,14 @@ const defaultConfig: LLMConfig = {
 
 export const useLLMStore = create<LLMStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       config: defaultConfig,
       isHydrated: false,
+      profiles: [],
+      activeProfileId: null,
       setProvider: (provider) =>
-        set((state) => ({ config: { ...state.config, provider } })),
+        // Phase models and the base URL belong to the previous provider
+        set((state) => ({ config: { ...state.config, provider, phaseModels: undefined, baseUrl: undefined } })),
       setModel: (model) =>
         set((state) => ({ config: { ...state.config, model } })),
       setApiKey: (apiKey) =>
@@ -54,12 +122,115 @@ export const useLLMStore = create<LLMStore>()(
         set((state) => ({ config: { ...state.config, presencePenalty } })),
       setOrganizationId: (organizationId) =>
         set((state) => ({ config: { ...state.config, organizationId } })),
+      setPhaseModel: (phase, model) =>
+        set((state) => {
+          const phaseModels = { ...state.config.phaseModels };
+          delete phaseModels[phase];
+          if (model) {
+            phaseModels[phase] = model;
+          }
+          return { config: { ...state.config, phaseModels } };
+        }),
+      setCustomModels: (customModels) =>
+        set((state) => ({ config: { ...state.config, customModels } })),
+      setCapabilityOverride: (model, key, value) =>
+        set((state) => {
+          const overrides = { ...state.config.capabilityOverrides?.[model] };
+          delete overrides[key];
+          if (value !== null) {
+            overrides[key] = value;
+          }
+          const capabilityOverrides = { ...state.config.capabilityOverrides, [model]: overrides };
+          if (Object.keys(overrides).length === 0) {
+            delete capabilityOverrides[model];
+          }
+          return { config: { ...state.config, capabilityOverrides } };
+        }),
+      addFallback: (fallback) =>
+        set((state) => ({ config: { ...state.config, fallbacks: [...(state.config.fallbacks || []), fallback] } })),
+      updateFallback: (index, fallback) =>
+        set((state) => ({
+          config: {
+            ...state.config,
+            fallbacks: (state.config.fallbacks || []).map((f, i) => (i === index ? { ...f, ...fallback } : f)),
+          },
+        })),
+      removeFallback: (index) =>
+        set((state) => ({
+          config: { ...state.config, fallbacks: (state.config.fallbacks || []).filter((_, i) => i !== index) },
+        })),
+      moveFallback: (index, direction) =>
+        set((state) => {
+          const fallbacks = [...(state.config.fallbacks || [])];
+          const target = index + direction;
+          if (target < 0 || target >= fallbacks.length) {
+            return state;
+          }
+          [fallbacks[index], fallbacks[target]] = [fallbacks[target], fallbacks[index]];
+          return { config: { ...state.config, fallbacks } };
+        }),
+      setRetryRule: (errorClass, rule) =>
+        set((state) => {
+          const retryRules = { ...state.config.retryRules };
+          delete retryRules[errorClass];
+          if (rule) {
+            retryRules[errorClass] = rule;
+          }
+          return { config: { ...state.config, retryRules } };
+        }),
       updateConfig: (config) =>
         set((state) => ({ config: { ...state.config, ...config } })),
       resetConfig: () => set({ config: defaultConfig }),
+
+      saveProfile: (name) =>
+        set((state) => {
+          const profile: LLMProfile = { id: crypto.randomUUID(), name, config: state.config };
+          return { profiles: [...state.profiles, profile], activeProfileId: profile.id };
+        }),
+      updateActiveProfile: () =>
+        set((state) => ({
+          profiles: state.profiles.map((profile) =>
+            profile.id === state.activeProfileId ? { ...profile, config: state.config } : profile
+          ),
+        })),
+      switchProfile: (id) =>
+        set((state) => {
+          const profile = state.profiles.find((p) => p.id === id);
+          return profile ? { config: profile.config, activeProfileId: id } : state;
+        }),
+      renameProfile: (id, name) =>
+        set((state) => ({
+          profiles: state.profiles.map((profile) => (profile.id === id ? { ...profile, name } : profile)),
+        })),
+      deleteProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((profile) => profile.id !== id),
+          activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+        })),
+      importProfiles: (json) => {
+        const parsed = JSON.parse(json);
+        const entries: unknown = Array.isArray(parsed) ? parsed : parsed?.profiles;
+        if (!Array.isArray(entries)) {
+          throw new Error('Expected a list of profiles or an object with a "profiles" list');
+        }
+        const imported = entries.map(parseProfile);
+        set((state) => ({ profiles: [...state.profiles, ...imported] }));
+        return imported.length;
+      },
+      exportProfiles: () =>
+        JSON.stringify(
+          {
+            version: PROFILE_EXPORT_VERSION,
+            profiles: get().profiles.map(({ name, config }) => ({ name, config: withoutSecrets(config) })),
+          },
+          null,
+          2
+        ),
     }),
     {
       name: "llm-config-storage",
+      // API keys only reach localStorage in plain mode; otherwise the vault keeps them
+      partialize: (state) => (persistsPlainSecrets() ? state : { ...state, ...stripLLMSecrets(state.config, state.profiles) }),
       onRehydrateStorage: () => (state) => {
         if (state) {
           state.isHydrated = true;
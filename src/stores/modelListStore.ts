@@ -0,0 +1,75 @@
+/**
+ * Model List Store
+ * Caches the models discovered from each provider's model-listing endpoint
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { LLM_PROVIDERS, type LLMConfig } from "@/types/llm.types";
+import { fetchProviderModels } from "@/utils/modelDiscovery";
+
+export interface CachedModelList {
+  models: string[];
+  fetchedAt: number;
+}
+
+interface ModelListStore {
+  /** Discovered models keyed by provider and base URL */
+  lists: Record<string, CachedModelList>;
+  loading: Record<string, boolean>;
+  errors: Record<string, string>;
+  refreshModels: (config: LLMConfig) => Promise<void>;
+}
+
+/**
+ * Cache key: the same provider behind another base URL serves other models
+ */
+export function getModelListKey(config: LLMConfig): string {
+  const baseUrl = config.baseUrl || LLM_PROVIDERS[config.provider]?.defaultBaseUrl || "";
+  return `${config.provider}|${baseUrl}`;
+}
+
+/**
+ * Models to offer for a config: the discovered list, or the built-in list when
+ * nothing has been fetched yet. User-defined models are always included.
+ */
+export function getAvailableModels(config: LLMConfig, lists: Record<string, CachedModelList>): string[] {
+  const discovered = lists[getModelListKey(config)]?.models;
+  const models = discovered?.length ? discovered : LLM_PROVIDERS[config.provider]?.models || [];
+  const extra = config.provider === "openai-compatible" ? config.customModels || [] : [];
+  return [...new Set([...models, ...extra])];
+}
+
+export const useModelListStore = create<ModelListStore>()(
+  persist(
+    (set) => ({
+      lists: {},
+      loading: {},
+      errors: {},
+      refreshModels: async (config) => {
+        const key = getModelListKey(config);
+        set((state) => ({
+          loading: { ...state.loading, [key]: true },
+          errors: { ...state.errors, [key]: "" },
+        }));
+        try {
+          const models = await fetchProviderModels(config);
+          set((state) => ({
+            lists: { ...state.lists, [key]: { models, fetchedAt: Date.now() } },
+          }));
+        } catch (error) {
+          // Keep the previous list (or the built-in fallback) and report why the refresh failed
+          set((state) => ({
+            errors: { ...state.errors, [key]: error instanceof Error ? error.message : String(error) },
+          }));
+        } finally {
+          set((state) => ({ loading: { ...state.loading, [key]: false } }));
+        }
+      },
+    }),
+    {
+      name: "model-list-storage",
+      partialize: (state) => ({ lists: state.lists }),
+    }
+  )
+);
@@ -0,0 +1,132 @@
+/**
+ * Usage Store
+ * Model prices for cost estimates and the per-conversation budget
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { LLMUsage } from "@/types/llm.types";
+import type { Message } from "@/types/chat.types";
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of common models. Dated and other variants match by prefix,
+ * e.g. "gpt-4o-2024-08-06" uses the "gpt-4o" price.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "o1": { input: 15, output: 60 },
+  "o3": { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+};
+
+export interface UsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated cost in USD of the calls to priced models */
+  cost: number;
+  /** Models without a price; their tokens are not included in the cost */
+  unpricedModels: string[];
+}
+
+interface UsageStore {
+  prices: Record<string, ModelPrice>;
+  /** Stop the agent once a conversation's estimated cost reaches this many USD (null = no limit) */
+  conversationBudget: number | null;
+  setPrice: (model: string, price: ModelPrice | null) => void;
+  resetPrices: () => void;
+  setConversationBudget: (budget: number | null) => void;
+}
+
+/**
+ * Price of a model: an exact entry, or else the longest entry the model name starts with
+ */
+export function getModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function summarizeUsage(usage: LLMUsage[], prices: Record<string, ModelPrice>): UsageSummary {
+  const summary: UsageSummary = { inputTokens: 0, outputTokens: 0, cost: 0, unpricedModels: [] };
+  for (const call of usage) {
+    summary.inputTokens += call.inputTokens;
+    summary.outputTokens += call.outputTokens;
+    const price = getModelPrice(call.model, prices);
+    if (price) {
+      summary.cost += (call.inputTokens * price.input + call.outputTokens * price.output) / 1_000_000;
+    } else if (!summary.unpricedModels.includes(call.model)) {
+      summary.unpricedModels.push(call.model);
+    }
+  }
+  return summary;
+}
+
+export function getConversationUsage(messages: Message[]): LLMUsage[] {
+  return messages.flatMap(message => message.usage || []);
+}
+
+/**
+ * Whether the estimated cost of the given usage has reached the conversation budget
+ */
+export function exceedsBudget(usage: LLMUsage[]): boolean {
+  const { prices, conversationBudget } = useUsageStore.getState();
+  return conversationBudget !== null && summarizeUsage(usage, prices).cost >= conversationBudget;
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export const useUsageStore = create<UsageStore>()(
+  persist(
+    (set) => ({
+      prices: DEFAULT_MODEL_PRICES,
+      conversationBudget: null,
+      setPrice: (model, price) =>
+        set((state) => {
+          const prices = { ...state.prices };
+          if (price) {
+            prices[model] = price;
+          } else {
+            delete prices[model];
+          }
+          return { prices };
+        }),
+      resetPrices: () => set({ prices: DEFAULT_MODEL_PRICES }),
+      setConversationBudget: (conversationBudget) => set({ conversationBudget }),
+    }),
+    {
+      name: "usage-storage",
+    }
+  )
+);
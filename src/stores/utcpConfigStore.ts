@@ -11,6 +11,8 @@ import {
   ConcurrentToolRepositoryConfigSerializer,
   ToolSearchStrategyConfigSerializer,
 } from "@utcp/sdk";
+import { useVaultStore } from "@/stores/vaultStore";
+import { stripVariableSecrets } from "@/utils/secrets";
 
 const configSerializer = new UtcpClientConfigSerializer();
 
@@ -135,6 +137,15 @@ export const useUtcpConfigStore = create<UtcpConfigStoreState>()(
     }),
     {
       name: "utcp-config-storage",
+      // Protected variables only reach localStorage in plain mode; otherwise the vault keeps them
+      partialize: (state) => {
+        const { mode, protectedVariables } = useVaultStore.getState();
+        const variables = state.configDict.variables as Record<string, string> | undefined;
+        if (mode === "plain" || !variables) {
+          return state;
+        }
+        return { ...state, configDict: { ...state.configDict, variables: stripVariableSecrets(variables, protectedVariables) } };
+      },
     }
   )
 );
@@ -0,0 +1,66 @@
+/**
+ * Secret Vault Store
+ * How API keys and protected UTCP variables are kept at rest, plus the encrypted vault itself
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { EncryptedPayload } from "@/utils/crypto";
+
+/**
+ * Where secrets are kept:
+ * - "plain": in localStorage with the rest of the settings
+ * - "encrypted": in localStorage, encrypted with a passphrase; unlocked once per session
+ * - "session": in memory only, never persisted; lost on reload
+ */
+export type VaultMode = "plain" | "encrypted" | "session";
+
+interface VaultStore {
+  mode: VaultMode;
+  /** Encrypted secrets (mode "encrypted") */
+  vault: EncryptedPayload | null;
+  /** UTCP variable names treated as secrets, like API keys */
+  protectedVariables: string[];
+  /** Lock the vault after this many minutes without user activity (0 = never) */
+  autoLockMinutes: number;
+  /** Key derived from the passphrase while the vault is unlocked; never persisted */
+  key: CryptoKey | null;
+  setMode: (mode: VaultMode) => void;
+  setVault: (vault: EncryptedPayload | null) => void;
+  setKey: (key: CryptoKey | null) => void;
+  setProtectedVariable: (name: string, isProtected: boolean) => void;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+export const useVaultStore = create<VaultStore>()(
+  persist(
+    (set) => ({
+      mode: "plain",
+      vault: null,
+      protectedVariables: [],
+      autoLockMinutes: 15,
+      key: null,
+      setMode: (mode) => set({ mode }),
+      setVault: (vault) => set({ vault }),
+      setKey: (key) => set({ key }),
+      setProtectedVariable: (name, isProtected) =>
+        set((state) => ({
+          protectedVariables: isProtected
+            ? [...new Set([...state.protectedVariables, name])]
+            : state.protectedVariables.filter((variable) => variable !== name),
+        })),
+      setAutoLockMinutes: (autoLockMinutes) => set({ autoLockMinutes }),
+    }),
+    {
+      name: "vault-storage",
+      partialize: ({ mode, vault, protectedVariables, autoLockMinutes }) => ({ mode, vault, protectedVariables, autoLockMinutes }),
+    }
+  )
+);
+
+/**
+ * Whether secrets may be written to localStorage as plain text
+ */
+export function persistsPlainSecrets(): boolean {
+  return useVaultStore.getState().mode === "plain";
+}
@@ -0,0 +1,37 @@
+/**
+ * Test Setup
+ * In-memory localStorage for the persisted stores, since Node does not provide one
+ */
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  [name: string]: unknown;
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+if (typeof globalThis.localStorage === "undefined") {
+  globalThis.localStorage = new MemoryStorage();
+}
@@ -6,35 +6,175 @@
  * These types are for configuration and decision data only.
  */
 
-export interface DecisionData {
-  action: "call_tool" | "respond" | "end";
+import type { JsonSchema } from "@utcp/sdk";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { LLMPhase } from "@/types/llm.types";
+
+/**
+ * How the agent asks the LLM for its next action:
+ * - "native": provider-native tool calling via LangChain bindTools
+ * - "json": the LLM prints a JSON decision object that is parsed from the text
+ * - "auto": native when the model supports tool binding, otherwise json
+ */
+export type DecisionMode = "auto" | "native" | "json";
+
+/**
+ * Kinds of steps the agent reports while it runs
+ */
+export type AgentStepName =
+  | "analyze"
+  | "search"
+  | "plan"
+  | "plan_step"
+  | "decide"
+  | "ask_user"
+  | "approve"
+  | "execute"
+  | "respond"
+  | "fallback";
+
+/**
+ * One entry of a run's activity timeline, built from the agent's steps
+ */
+export interface AgentActivity {
+  id: string;
+  step: AgentStepName;
+  message?: string;
+  /** Epoch milliseconds */
+  startedAt: number;
+  /** Set when the step produced its result or the next step began */
+  completedAt?: number;
+  /** Model that served the step's LLM call */
+  model?: string;
+  /** Task found by an "analyze" step */
+  task?: string;
+  /** Tools found by a "search" step, best match first */
+  tools?: Array<{ name: string; description: string }>;
+  /** Parsed decision of a "decide" step */
+  decision?: DecisionData;
+  /** What the LLM returned for a "decide" step, before parsing */
+  rawDecision?: unknown;
+  /** Tool run by an "execute" step */
   toolName?: string;
-  arguments?: Record<string, any>;
+}
+
+/**
+ * A prompt exactly as the agent sent it to an LLM
+ */
+export interface LLMPromptRecord {
+  phase: LLMPhase;
+  model: string;
+  messages: BaseMessage[];
+  /** Epoch milliseconds */
+  timestamp: number;
+}
+
+export interface ToolCallRequest {
+  toolName: string;
+  arguments: Record<string, any>;
+}
+
+export interface DecisionData {
+  action: "call_tool" | "ask_user" | "respond" | "end";
+  /** Tool calls to run in this iteration (executed concurrently) */
+  toolCalls?: ToolCallRequest[];
+  /** Missing tool parameters to ask the user for (action "ask_user") */
+  userInput?: UserInputRequest;
   message?: string;
+  /** What the LLM returned: the response text (JSON decisions) or its content and tool calls (native tool calling) */
+  raw?: unknown;
 }
 
-export interface UtcpAgentConfig {
-  maxIterations?: number;
-  maxToolsPerSearch?: number;
-  systemPrompt?: string;
-  summarizeThreshold?: number;
-  recursionLimit?: number;
+/**
+ * Tool parameters the agent could not determine and asks the user for.
+ * The run pauses until the user submits the generated form or skips it.
+ */
+export interface UserInputRequest {
+  toolName: string;
+  question: string;
+  /** Arguments the agent already knows */
+  arguments: Record<string, unknown>;
+  /** Object schema of the requested fields, taken from the tool's inputs */
+  schema: JsonSchema;
 }
 
-export const DEFAULT_AGENT_CONFIG: Required<UtcpAgentConfig> = {
-  maxIterations: 3,
-  maxToolsPerSearch: 10,
-  systemPrompt: `You are a helpful AI assistant with access to a wide variety of tools through UTCP.
+/**
+ * How a tool call is gated before execution:
+ * - "ask": pause the run and let the user approve, edit or reject the call
+ * - "auto": execute without asking
+ * - "deny": reject the call without asking
+ */
+export type ToolApprovalPolicy = "ask" | "auto" | "deny";
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  manualName: string;
+  arguments: Record<string, unknown>;
+  /** The call template the tool will be executed through (URL, HTTP method, ...) */
+  callTemplate?: Record<string, unknown>;
+}
+
+export type ToolApprovalDecision =
+  | { approved: true; arguments?: Record<string, unknown> }
+  | { approved: false; reason?: string };
+
+export type PlanStepStatus = "pending" | "in_progress" | "completed" | "failed" | "skipped";
+
+export interface PlanStep {
+  id: string;
+  description: string;
+  status: PlanStepStatus;
+}
+
+/**
+ * Explicit multi-step plan produced in planning mode before any tool is called
+ */
+export interface AgentPlan {
+  goal: string;
+  steps: PlanStep[];
+  /** Number of times the plan was revised after a failed step */
+  revision: number;
+}
 
-Your workflow:
-1. When given a user query, first analyze what task needs to be accomplished
-2. Search for relevant tools that can help with the task
-3. Either call appropriate tools or respond directly if no tools are needed
-4. Provide clear, helpful responses based on tool results or your knowledge
+/**
+ * Editable prompts the agent sends in its phases. Placeholders such as
+ * {task} are filled in by the agent, see PROMPT_TEMPLATE_INFO.
+ */
+export type PromptTemplateName = "analyze" | "decide" | "respond" | "summarize" | "plan" | "revise";
+
+export type PromptTemplates = Record<PromptTemplateName, string>;
+
+/**
+ * Named set of agent settings; templates left out use the defaults
+ */
+export interface AgentPreset {
+  id: string;
+  name: string;
+  agentConfig: UtcpAgentConfig;
+  promptTemplates: Partial<PromptTemplates>;
+}
 
-You have access to a special tool called 'respond' when you want to respond directly to the user without calling other tools.
+/**
+ * Agent loop options edited in the agent settings
+ */
+export interface UtcpAgentConfig {
+  /** Decide/execute rounds per message before the agent has to respond */
+  maxIterations: number;
+  /** Decide rounds per message across all iterations and plan steps */
+  recursionLimit: number;
+  maxToolsPerSearch: number;
+  systemPrompt: string;
+  /** History size in tokens above which older messages are summarized; null uses 75% of the model's context window */
+  summarizeThreshold: number | null;
+  /** Tool results above this many tokens go to the result store instead of the prompt */
+  maxResultTokens: number;
+}
 
-Be concise and helpful in your responses.`,
-  summarizeThreshold: 80000,
+export const DEFAULT_AGENT_CONFIG: UtcpAgentConfig = {
+  maxIterations: 5,
   recursionLimit: 25,
+  maxToolsPerSearch: 10,
+  systemPrompt: "You are a helpful AI assistant with access to tools through UTCP.",
+  summarizeThreshold: null,
+  maxResultTokens: 4000,
 };
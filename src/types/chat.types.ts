@@ -2,6 +2,10 @@
  * Chat Message Types
  */
 
+import type { AgentActivity, AgentPlan } from "@/types/agent.types";
+import type { LLMUsage } from "@/types/llm.types";
+import type { StoredMessage } from "@langchain/core/messages";
+
 export type MessageRole = "user" | "assistant" | "system";
 
 export interface Message {
@@ -10,13 +14,45 @@ export interface Message {
   content: string;
   timestamp: Date;
   toolCalls?: ToolCall[];
+  /** Set when the user stopped the run before it finished */
+  cancelled?: boolean;
+  /** Final state of the plan when the response was produced in planning mode */
+  plan?: AgentPlan;
+  /** Tokens used by the LLM calls of the run that produced this response */
+  usage?: LLMUsage[];
+  /** Timeline of the agent steps that produced this response */
+  activity?: AgentActivity[];
 }
 
 export interface ToolCall {
   toolName: string;
+  /** Manual (call template) the tool belongs to */
+  manualName?: string;
   arguments: Record<string, any>;
   result?: any;
   error?: string;
+  /** How long the call took, in milliseconds */
+  durationMs?: number;
+}
+
+/**
+ * Conversation as listed in the sidebar
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Contents of a conversation, loaded when it is opened
+ */
+export interface ConversationData {
+  id: string;
+  messages: Message[];
+  /** The agent's LangChain message history, serialized */
+  agentHistory: StoredMessage[];
 }
 
 export interface ChatState {
@@ -4,9 +4,18 @@
 
 export type LLMProvider =
   | "openai"
+  | "openai-compatible"
   | "anthropic"
   | "google";
 
+/**
+ * Agent phases that can run on their own model:
+ * - "router": task analysis, tool decisions and planning
+ * - "responder": the final answer streamed to the user
+ * - "summarizer": condensing long conversation history
+ */
+export type LLMPhase = "router" | "responder" | "summarizer";
+
 export interface LLMConfig {
   provider: LLMProvider;
   model: string;
@@ -18,11 +27,86 @@ export interface LLMConfig {
   frequencyPenalty?: number;
   presencePenalty?: number;
   organizationId?: string;
+  /** Models added by hand for the OpenAI-compatible provider, on top of the discovered ones */
+  customModels?: string[];
+  /** Model overrides per phase (same provider); phases without one use `model` */
+  phaseModels?: Partial<Record<LLMPhase, string>>;
+  /** User corrections to the capability registry, keyed by model name */
+  capabilityOverrides?: Record<string, Partial<ModelCapabilities>>;
+  /** Models tried in order when the main model keeps failing; they share the sampling settings */
+  fallbacks?: LLMFallback[];
+  /** Retry and fallback behaviour per error class; unset classes use DEFAULT_RETRY_RULES */
+  retryRules?: Partial<Record<LLMErrorClass, LLMRetryRule>>;
+}
+
+/**
+ * Named, persisted LLM configuration that can be switched to in one click
+ */
+export interface LLMProfile {
+  id: string;
+  name: string;
+  config: LLMConfig;
+}
+
+export interface LLMFallback {
+  provider: LLMProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Kinds of provider errors, each with its own retry rule:
+ * - "rate_limit": 429 / quota exceeded
+ * - "server": 5xx and overloaded responses
+ * - "timeout" / "network": the request did not complete
+ * - "auth": invalid or missing API key, no access to the model
+ * - "context_length": the prompt is too long for the model
+ * - "invalid_request": anything else the provider rejected
+ */
+export type LLMErrorClass = "rate_limit" | "server" | "timeout" | "network" | "auth" | "context_length" | "invalid_request";
+
+export interface LLMRetryRule {
+  /** Retries on the same model before giving up on it */
+  retries: number;
+  /** Delay before the first retry, doubled for each further retry (Retry-After headers take precedence) */
+  backoffMs: number;
+  /** Switch to the next fallback model once the retries are used up */
+  fallback: boolean;
+}
+
+/**
+ * Tokens used by one LLM call, as reported by the provider
+ */
+export interface LLMUsage {
+  phase: LLMPhase;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * What a model can do, as far as the agent and the LLM factory are concerned
+ */
+export interface ModelCapabilities {
+  /** Accepts a system (or developer) message; otherwise it is sent as a user message */
+  supportsSystemMessage: boolean;
+  /** Accepts a temperature setting (reasoning models only run at their default) */
+  supportsTemperature: boolean;
+  /** Supports native tool calling; otherwise the agent asks for JSON decisions */
+  supportsNativeTools: boolean;
+  /** Accepts image input */
+  supportsVision: boolean;
+  /** Context window (input + output tokens) */
+  contextWindow: number;
+  /** Maximum tokens in one response */
+  maxOutputTokens: number;
 }
 
 export interface LLMProviderInfo {
   id: LLMProvider;
   name: string;
+  /** Built-in model list, used until the provider's models have been fetched */
   models: string[];
   requiresApiKey: boolean;
   supportsStreaming: boolean;
@@ -46,6 +130,15 @@ export const LLM_PROVIDERS: Record<LLMProvider, LLMProviderInfo> = {
     supportsStreaming: true,
     defaultBaseUrl: "https://api.openai.com/v1",
   },
+  "openai-compatible": {
+    id: "openai-compatible",
+    name: "OpenAI-compatible (Ollama, LM Studio, vLLM, ...)",
+    // Models are discovered from the server or added via LLMConfig.customModels
+    models: [],
+    requiresApiKey: false,
+    supportsStreaming: true,
+    defaultBaseUrl: "http://localhost:11434/v1",
+  },
   anthropic: {
     id: "anthropic",
     name: "Anthropic",
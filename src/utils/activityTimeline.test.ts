@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { AgentActivity } from "@/types/agent.types";
+import { addActivityStep, finishActivity } from "./activityTimeline";
+
+describe("addActivityStep", () => {
+  it("merges a step's result into the entry its start created", () => {
+    let activity = addActivityStep([], { step: "analyze", message: "Analyzing task..." }, 1000);
+    activity = addActivityStep(activity, { step: "analyze", data: { task: "Get the weather" }, model: "gpt-4o" }, 1400);
+    expect(activity).toEqual([
+      {
+        id: expect.any(String),
+        step: "analyze",
+        message: "Analyzing task...",
+        startedAt: 1000,
+        completedAt: 1400,
+        task: "Get the weather",
+        model: "gpt-4o",
+      },
+    ]);
+  });
+
+  it("closes the open entry when the next step starts", () => {
+    let activity = addActivityStep([], { step: "analyze", message: "Analyzing task..." }, 1000);
+    activity = addActivityStep(activity, { step: "search", message: "Searching for relevant tools..." }, 1200);
+    expect(activity.map(({ step, startedAt, completedAt }) => ({ step, startedAt, completedAt }))).toEqual([
+      { step: "analyze", startedAt: 1000, completedAt: 1200 },
+      { step: "search", startedAt: 1200, completedAt: undefined },
+    ]);
+  });
+
+  it("keeps all tools offered by a search", () => {
+    const tools = Array.from({ length: 8 }, (_, index) => ({ name: `tool_${index}` }));
+    let activity = addActivityStep([], { step: "search", message: "Searching for relevant tools..." }, 0);
+    activity = addActivityStep(activity, { step: "search", data: { tools } }, 10);
+    expect(activity[0].tools).toHaveLength(8);
+    expect(activity[0].tools?.[0]).toEqual({ name: "tool_0", description: "" });
+  });
+
+  it("keeps the raw decision apart from the parsed one", () => {
+    const raw = { content: "", tool_calls: [{ name: "weather.get_forecast", args: { city: "Berlin" } }] };
+    let activity = addActivityStep([], { step: "decide", message: "Deciding next action..." }, 0);
+    activity = addActivityStep(activity, { step: "decide", data: { action: "respond", raw } }, 10);
+    expect(activity[0].decision).toEqual({ action: "respond" });
+    expect(activity[0].rawDecision).toEqual(raw);
+  });
+
+  it("gives each tool call its own entry, timed by its duration", () => {
+    let activity = addActivityStep([], { step: "execute", message: "Executing tools..." }, 1000);
+    activity = addActivityStep(activity, { step: "execute", data: { toolName: "a", durationMs: 300 } }, 1500);
+    activity = addActivityStep(activity, { step: "execute", data: { toolName: "b", durationMs: 100 } }, 1600);
+    expect(activity.map(({ toolName, startedAt, completedAt }) => ({ toolName, startedAt, completedAt }))).toEqual([
+      { toolName: undefined, startedAt: 1000, completedAt: 1500 },
+      { toolName: "a", startedAt: 1200, completedAt: 1500 },
+      { toolName: "b", startedAt: 1500, completedAt: 1600 },
+    ]);
+  });
+
+  it("ignores streamed response chunks and keeps the start message of the response", () => {
+    let activity = addActivityStep([], { step: "respond", message: "Generating response..." }, 0);
+    const streaming = addActivityStep(activity, { step: "respond", data: { delta: "Hel" } }, 5);
+    expect(streaming).toBe(activity);
+    activity = addActivityStep(activity, { step: "respond", data: { response: "Hello" }, message: "Hello" }, 10);
+    expect(activity[0]).toMatchObject({ message: "Generating response...", completedAt: 10 });
+  });
+});
+
+describe("finishActivity", () => {
+  it("closes only an open last entry", () => {
+    const open = addActivityStep([], { step: "respond", message: "Generating response..." }, 0);
+    expect(finishActivity(open, 50)[0].completedAt).toBe(50);
+
+    const closed: AgentActivity[] = finishActivity(open, 50);
+    expect(finishActivity(closed, 90)).toBe(closed);
+    expect(finishActivity([], 90)).toEqual([]);
+  });
+});
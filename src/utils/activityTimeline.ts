@@ -0,0 +1,103 @@
+/**
+ * Activity Timeline
+ *
+ * Turns the agent's steps into timeline entries. The agent reports most
+ * phases twice - once when it starts ("Searching for relevant tools...") and
+ * once with the result - so a result is merged into the entry its start
+ * created, and the time in between is the step's latency.
+ */
+
+import type { AgentActivity, AgentStepName, DecisionData } from "@/types/agent.types";
+
+interface ActivityStep {
+  step: AgentStepName;
+  data?: unknown;
+  message?: string;
+  model?: string;
+}
+
+// The step data fields the timeline reads
+interface StepData {
+  task?: unknown;
+  tools?: Array<{ name: string; description?: string }>;
+  action?: DecisionData["action"];
+  toolName?: string;
+  delta?: string;
+  durationMs?: unknown;
+}
+
+/**
+ * Details worth keeping from a step's data
+ */
+function describeStep({ step, data: stepData, model }: ActivityStep): Partial<AgentActivity> {
+  const data = stepData as StepData | undefined;
+  const details: Partial<AgentActivity> = model ? { model } : {};
+  if (step === "analyze" && typeof data?.task === "string") {
+    details.task = data.task;
+  }
+  if (step === "search" && Array.isArray(data?.tools)) {
+    details.tools = data.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description || "",
+    }));
+  }
+  if (step === "decide" && data?.action) {
+    const { raw, ...decision } = data as DecisionData;
+    details.decision = decision;
+    if (raw !== undefined) {
+      details.rawDecision = raw;
+    }
+  }
+  if (step === "execute" && data?.toolName) {
+    details.toolName = data.toolName;
+  }
+  return details;
+}
+
+/**
+ * Add a step to the timeline; returns a new array
+ */
+export function addActivityStep(activity: AgentActivity[], step: ActivityStep, now: number = Date.now()): AgentActivity[] {
+  const data = step.data as StepData | undefined;
+  // Streamed response chunks are not steps of their own
+  if (step.step === "respond" && data?.delta !== undefined) {
+    return activity;
+  }
+
+  const last = activity[activity.length - 1];
+  const isOpen = !!last && last.completedAt === undefined;
+  // Tool calls report their own duration and get an entry each
+  const durationMs = typeof data?.durationMs === "number" ? data.durationMs : undefined;
+
+  if (step.data !== undefined && durationMs === undefined && isOpen && last.step === step.step) {
+    const completed: AgentActivity = {
+      ...last,
+      ...describeStep(step),
+      // The final "respond" step carries the whole response as its message
+      message: step.step === "respond" ? last.message : step.message ?? last.message,
+      completedAt: now,
+    };
+    return [...activity.slice(0, -1), completed];
+  }
+
+  const entry: AgentActivity = {
+    id: crypto.randomUUID(),
+    step: step.step,
+    message: step.message,
+    startedAt: durationMs !== undefined ? now - durationMs : now,
+    completedAt: step.data !== undefined ? now : undefined,
+    ...describeStep(step),
+  };
+  const previous = isOpen ? [...activity.slice(0, -1), { ...last, completedAt: now }] : activity;
+  return [...previous, entry];
+}
+
+/**
+ * Close the last entry when the run ends
+ */
+export function finishActivity(activity: AgentActivity[], now: number = Date.now()): AgentActivity[] {
+  const last = activity[activity.length - 1];
+  return last && last.completedAt === undefined
+    ? [...activity.slice(0, -1), { ...last, completedAt: now }]
+    : activity;
+}
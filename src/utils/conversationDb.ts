@@ -0,0 +1,93 @@
+/**
+ * Conversation Database
+ *
+ * IndexedDB persistence for conversations. Summaries and contents live in
+ * separate object stores so the sidebar list can be read without loading
+ * every message.
+ */
+
+import type { ConversationData, ConversationSummary } from "@/types/chat.types";
+
+const DB_NAME = "utcp-chat";
+const DB_VERSION = 1;
+const SUMMARY_STORE = "conversations";
+const DATA_STORE = "conversationData";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(DATA_STORE)) {
+          db.createObjectStore(DATA_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * All conversations, most recently updated first
+ */
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const db = await openDb();
+  const summaries = await requestToPromise<ConversationSummary[]>(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadConversationData(id: string): Promise<ConversationData | undefined> {
+  const db = await openDb();
+  return requestToPromise<ConversationData | undefined>(
+    db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id)
+  );
+}
+
+/**
+ * Write a conversation's summary and, if given, its contents in one transaction
+ */
+export async function saveConversation(summary: ConversationSummary, data?: ConversationData): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], "readwrite");
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  if (data) {
+    transaction.objectStore(DATA_STORE).put(data);
+  }
+  await transactionDone(transaction);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], "readwrite");
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  transaction.objectStore(DATA_STORE).delete(id);
+  await transactionDone(transaction);
+}
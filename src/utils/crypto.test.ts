@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { createSalt, decryptJson, deriveKey, encryptJson } from "./crypto";
+
+// Far below the real iteration count, to keep the tests fast
+const ITERATIONS = 1000;
+
+describe("crypto", () => {
+  it("decrypts what it encrypted with the same passphrase", async () => {
+    const salt = createSalt();
+    const secrets = { "llm.apiKey": "sk-test", "variable.TOKEN": "täst ✓" };
+    const payload = await encryptJson(secrets, await deriveKey("correct horse", salt, ITERATIONS), salt, ITERATIONS);
+
+    expect(payload).toMatchObject({ salt, iterations: ITERATIONS });
+    expect(payload.data).not.toContain("sk-test");
+    const key = await deriveKey("correct horse", payload.salt, payload.iterations);
+    await expect(decryptJson(payload, key)).resolves.toEqual(secrets);
+  });
+
+  it("uses a new salt and IV each time", async () => {
+    expect(createSalt()).not.toBe(createSalt());
+    const salt = createSalt();
+    const key = await deriveKey("passphrase", salt, ITERATIONS);
+    const [first, second] = await Promise.all([encryptJson("same", key, salt, ITERATIONS), encryptJson("same", key, salt, ITERATIONS)]);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+
+  it("fails with a wrong passphrase", async () => {
+    const salt = createSalt();
+    const payload = await encryptJson({ secret: 1 }, await deriveKey("right", salt, ITERATIONS), salt, ITERATIONS);
+    await expect(decryptJson(payload, await deriveKey("wrong", salt, ITERATIONS))).rejects.toThrow();
+  });
+
+  it("fails when the data was tampered with", async () => {
+    const salt = createSalt();
+    const key = await deriveKey("passphrase", salt, ITERATIONS);
+    const payload = await encryptJson({ secret: 1 }, key, salt, ITERATIONS);
+    const data = atob(payload.data);
+    const tampered = btoa(String.fromCharCode(data.charCodeAt(0) ^ 1) + data.substring(1));
+    await expect(decryptJson({ ...payload, data: tampered }, key)).rejects.toThrow();
+  });
+});
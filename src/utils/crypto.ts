@@ -0,0 +1,84 @@
+/**
+ * Passphrase Encryption
+ *
+ * WebCrypto helpers for the secret vault: a PBKDF2-derived AES-GCM key
+ * encrypts a JSON value into base64 fields that can be kept in localStorage.
+ */
+
+export interface EncryptedPayload {
+  /** Base64 PBKDF2 salt */
+  salt: string;
+  /** Base64 AES-GCM initialization vector */
+  iv: string;
+  /** Base64 ciphertext (including the GCM authentication tag) */
+  data: string;
+  iterations: number;
+}
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Derive a non-extractable AES-GCM key from a passphrase
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptJson(value: unknown, key: CryptoKey, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { salt, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)), iterations };
+}
+
+/**
+ * Decrypt a payload. Throws when the key is wrong or the data was tampered with.
+ */
+export async function decryptJson<T>(payload: EncryptedPayload, key: CryptoKey): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { queryJsonPath } from "./jsonPath";
+
+const data = {
+  store: {
+    books: [
+      { title: "Dune", price: 9, status: "active" },
+      { title: "Emma", price: 12, status: "sold" },
+      { title: "Ulysses", price: 15, status: "active", "sub title": "A novel" },
+    ],
+    owner: { name: "Ada", id: 7 },
+  },
+  id: 1,
+};
+
+describe("queryJsonPath", () => {
+  it("selects names, indexes and bracket names", () => {
+    expect(queryJsonPath(data, "$.store.owner.name")).toEqual(["Ada"]);
+    expect(queryJsonPath(data, "$.store.books[0].title")).toEqual(["Dune"]);
+    expect(queryJsonPath(data, "$.store.books[-1].title")).toEqual(["Ulysses"]);
+    expect(queryJsonPath(data, "$.store.books[2]['sub title']")).toEqual(["A novel"]);
+  });
+
+  it("accepts paths without the root marker", () => {
+    expect(queryJsonPath(data, "store.books[1].title")).toEqual(["Emma"]);
+  });
+
+  it("supports wildcards, unions and slices", () => {
+    expect(queryJsonPath(data, "$.store.books[*].price")).toEqual([9, 12, 15]);
+    expect(queryJsonPath(data, "$.store.books[0,2].title")).toEqual(["Dune", "Ulysses"]);
+    expect(queryJsonPath(data, "$.store.books[0:2].title")).toEqual(["Dune", "Emma"]);
+    expect(queryJsonPath(data, "$.store.books[::2].title")).toEqual(["Dune", "Ulysses"]);
+  });
+
+  it("finds names at any depth with recursive descent", () => {
+    expect(queryJsonPath(data, "$..id")).toEqual([1, 7]);
+  });
+
+  it("filters by comparison and by existence", () => {
+    expect(queryJsonPath(data, "$.store.books[?(@.status == 'active')].title")).toEqual(["Dune", "Ulysses"]);
+    expect(queryJsonPath(data, "$.store.books[?(@.price < 12)].title")).toEqual(["Dune"]);
+    expect(queryJsonPath(data, "$.store.books[?(@['sub title'])].title")).toEqual(["Ulysses"]);
+  });
+
+  it("only selects own properties", () => {
+    expect(queryJsonPath(data, "$.constructor")).toEqual([]);
+    expect(queryJsonPath(data, "$.store.books[0].toString")).toEqual([]);
+    expect(queryJsonPath(data, "$.store.books[?(@.constructor)]")).toEqual([]);
+  });
+
+  it("returns no matches for missing paths", () => {
+    expect(queryJsonPath(data, "$.store.missing.name")).toEqual([]);
+    expect(queryJsonPath(data, "$.store.books[10]")).toEqual([]);
+  });
+
+  it("rejects unsupported expressions", () => {
+    expect(() => queryJsonPath(data, "$.store.books[?(@.price + 1)]")).toThrow(/Unsupported filter expression/);
+    expect(() => queryJsonPath(data, "$.store.books[0:2:0]")).toThrow(/Slice step cannot be 0/);
+    expect(() => queryJsonPath(data, "$.store.books[0")).toThrow(/Unclosed/);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * JSONPath Utilities
+ *
+ * A small JSONPath evaluator used by the agent to select parts of large tool
+ * results. Supports $, .name, ['name'], [0], [-1], [*], .*, ..name (recursive
+ * descent), unions ([0,2] / ['a','b']), slices ([start:end:step]) and simple
+ * filters such as [?(@.status == 'active')] or [?(@.price < 10)].
+ */
+
+type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "wildcard" }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number; step: number }
+  | { kind: "filter"; path: string[]; operator?: ComparisonOperator; operand?: unknown };
+
+interface Segment {
+  /** Whether the selectors apply to all descendants (..) or only direct children */
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+const FILTER_PATTERN = /^@((?:\.[\w$-]+|\[\s*(?:'[^']*'|"[^"]*"|-?\d+)\s*\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+))?$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unquote(text: string): string | null {
+  const match = text.match(/^'([^']*)'$|^"([^"]*)"$/);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+/**
+ * Split on a separator, ignoring separators inside quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = "";
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseFilter(expression: string): Selector {
+  let body = expression.substring(1).trim();
+  if (body.startsWith("(") && body.endsWith(")")) {
+    body = body.substring(1, body.length - 1).trim();
+  }
+
+  const match = body.match(FILTER_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported filter expression "${expression}". Use e.g. ?(@.field == 'value') or ?(@.count > 5)`);
+  }
+
+  const path = [...match[1].matchAll(/\.([\w$-]+)|\[\s*(?:'([^']*)'|"([^"]*)"|(-?\d+))\s*\]/g)]
+    .map(part => part[1] ?? part[2] ?? part[3] ?? part[4]);
+  if (!match[2]) {
+    return { kind: "filter", path };
+  }
+
+  const rawOperand = match[3].trim();
+  let operand: unknown = unquote(rawOperand);
+  if (operand === null) {
+    try {
+      operand = JSON.parse(rawOperand);
+    } catch {
+      throw new Error(`Invalid value "${rawOperand}" in filter expression. Quote strings, e.g. 'value'`);
+    }
+  }
+  return { kind: "filter", path, operator: match[2] as ComparisonOperator, operand };
+}
+
+function parseBracket(content: string): Selector[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("?")) {
+    return [parseFilter(trimmed)];
+  }
+
+  return splitOutsideQuotes(trimmed, ",").map((part): Selector => {
+    const item = part.trim();
+    const quoted = unquote(item);
+    if (quoted !== null) {
+      return { kind: "name", name: quoted };
+    }
+    if (item === "*") {
+      return { kind: "wildcard" };
+    }
+    if (/^-?\d+$/.test(item)) {
+      return { kind: "index", index: Number(item) };
+    }
+    const slice = item.match(/^(-?\d*)\s*:\s*(-?\d*)\s*(?::\s*(-?\d*))?$/);
+    if (slice) {
+      const step = slice[3] ? Number(slice[3]) : 1;
+      if (step === 0) {
+        throw new Error("Slice step cannot be 0");
+      }
+      return {
+        kind: "slice",
+        start: slice[1] ? Number(slice[1]) : undefined,
+        end: slice[2] ? Number(slice[2]) : undefined,
+        step,
+      };
+    }
+    if (item) {
+      // Be lenient with unquoted names like [name]
+      return { kind: "name", name: item };
+    }
+    throw new Error("Empty bracket selector");
+  });
+}
+
+function parsePath(path: string): Segment[] {
+  let expression = path.trim();
+  if (expression.startsWith("$")) {
+    expression = expression.substring(1);
+  } else if (expression && !expression.startsWith(".") && !expression.startsWith("[")) {
+    // Accept paths without the root marker, e.g. "items[0].name"
+    expression = `.${expression}`;
+  }
+
+  const segments: Segment[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    let descendant = false;
+    if (expression.startsWith("..", i)) {
+      descendant = true;
+      i += 2;
+    } else if (expression[i] === ".") {
+      i += 1;
+    } else if (expression[i] !== "[") {
+      throw new Error(`Unexpected character "${expression[i]}" at position ${i + 1} of "${path}"`);
+    }
+
+    if (expression[i] === "[") {
+      // Find the matching bracket, skipping over quoted strings and filter parentheses
+      let depth = 0;
+      let quote: string | null = null;
+      let end = i;
+      for (; end < expression.length; end++) {
+        const char = expression[end];
+        if (quote) {
+          if (char === quote) quote = null;
+        } else if (char === "'" || char === '"') {
+          quote = char;
+        } else if (char === "[" || char === "(") {
+          depth++;
+        } else if (char === "]" || char === ")") {
+          depth--;
+          if (depth === 0) break;
+        }
+      }
+      if (end >= expression.length) {
+        throw new Error(`Unclosed "[" in "${path}"`);
+      }
+      segments.push({ descendant, selectors: parseBracket(expression.substring(i + 1, end)) });
+      i = end + 1;
+    } else {
+      const name = expression.substring(i).match(/^[^.[]+/)?.[0];
+      if (!name) {
+        throw new Error(`Expected a property name at position ${i + 1} of "${path}"`);
+      }
+      segments.push({ descendant, selectors: [name.trim() === "*" ? { kind: "wildcard" } : { kind: "name", name: name.trim() }] });
+      i += name.length;
+    }
+  }
+  return segments;
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isPlainObject(value)) return Object.values(value);
+  return [];
+}
+
+function descendants(value: unknown): unknown[] {
+  const result: unknown[] = [value];
+  for (const child of children(value)) {
+    result.push(...descendants(child));
+  }
+  return result;
+}
+
+function compare(left: unknown, operator: ComparisonOperator, right: unknown): boolean {
+  switch (operator) {
+    case "==":
+      return JSON.stringify(left) === JSON.stringify(right);
+    case "!=":
+      return JSON.stringify(left) !== JSON.stringify(right);
+  }
+  const comparable = (typeof left === "number" && typeof right === "number")
+    || (typeof left === "string" && typeof right === "string");
+  if (!comparable) {
+    return false;
+  }
+  const [a, b] = [left as number | string, right as number | string];
+  switch (operator) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+  }
+}
+
+function matchesFilter(value: unknown, selector: Extract<Selector, { kind: "filter" }>): boolean {
+  let current: unknown = value;
+  for (const key of selector.path) {
+    if (Array.isArray(current) && /^-?\d+$/.test(key)) {
+      const index = Number(key);
+      current = current[index < 0 ? current.length + index : index];
+    } else if (isPlainObject(current)) {
+      // Only own keys, so e.g. @.constructor does not match every object
+      current = Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined;
+    } else {
+      return false;
+    }
+  }
+  if (!selector.operator) {
+    return current !== undefined;
+  }
+  return compare(current, selector.operator, selector.operand);
+}
+
+function applySelector(value: unknown, selector: Selector): unknown[] {
+  switch (selector.kind) {
+    case "name":
+      return isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name) ? [value[selector.name]] : [];
+    case "wildcard":
+      return children(value);
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case "slice": {
+      if (!Array.isArray(value)) return [];
+      const length = value.length;
+      const normalize = (n: number) => (n < 0 ? Math.max(length + n, 0) : Math.min(n, length));
+      const result: unknown[] = [];
+      if (selector.step > 0) {
+        const start = normalize(selector.start ?? 0);
+        const end = normalize(selector.end ?? length);
+        for (let i = start; i < end; i += selector.step) result.push(value[i]);
+      } else {
+        const start = selector.start !== undefined ? Math.min(normalize(selector.start), length - 1) : length - 1;
+        const end = selector.end !== undefined ? normalize(selector.end) : -1;
+        for (let i = start; i > end; i += selector.step) result.push(value[i]);
+      }
+      return result;
+    }
+    case "filter":
+      return children(value).filter(child => matchesFilter(child, selector));
+  }
+}
+
+/**
+ * Evaluate a JSONPath expression and return all matching values.
+ * Throws an Error with a readable message when the expression is invalid.
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [data];
+  for (const segment of parsePath(path)) {
+    const sources = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    nodes = sources.flatMap(node => segment.selectors.flatMap(selector => applySelector(node, selector)));
+  }
+  return nodes;
+}
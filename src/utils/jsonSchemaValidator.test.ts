@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { JsonSchema } from "@utcp/sdk";
+import { formatValidationErrors, MISSING_PARAMETER_MESSAGE, validateJsonSchema } from "./jsonSchemaValidator";
+
+const forecastSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    city: { type: "string", minLength: 2 },
+    days: { type: "integer", minimum: 1, maximum: 14 },
+    units: { type: "string", enum: ["metric", "imperial"] },
+    detailed: { type: "boolean" },
+    filters: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { country: { type: "string", pattern: "^[A-Z]{2}$" } },
+        required: ["country"],
+      },
+    },
+  },
+  required: ["city", "days"],
+  additionalProperties: false,
+};
+
+describe("validateJsonSchema", () => {
+  it("accepts valid arguments unchanged", () => {
+    const args = { city: "Berlin", days: 3, units: "metric" };
+    expect(validateJsonSchema(args, forecastSchema)).toEqual({ valid: true, errors: [], value: args });
+  });
+
+  it("applies safe coercions", () => {
+    const result = validateJsonSchema({ city: "Berlin", days: "5", detailed: "true", units: "Metric" }, forecastSchema);
+    expect(result.valid).toBe(true);
+    expect(result.value).toEqual({ city: "Berlin", days: 5, detailed: true, units: "metric" });
+  });
+
+  it("parses structured values passed as JSON strings", () => {
+    const result = validateJsonSchema({ city: "Berlin", days: 1, filters: '[{"country":"DE"}]' }, forecastSchema);
+    expect(result.valid).toBe(true);
+    expect(result.value).toMatchObject({ filters: [{ country: "DE" }] });
+  });
+
+  it("does not coerce values that would lose information", () => {
+    const result = validateJsonSchema({ city: "Berlin", days: "2.5" }, forecastSchema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{ path: "/days", message: 'must be of type integer (got string "2.5")' }]);
+  });
+
+  it("reports missing required parameters with the shared message", () => {
+    const result = validateJsonSchema({ days: 2 }, forecastSchema);
+    expect(result.errors).toEqual([{ path: "/city", message: MISSING_PARAMETER_MESSAGE }]);
+  });
+
+  it("reports nested errors with their path", () => {
+    const result = validateJsonSchema(
+      { city: "B", days: 20, filters: [{ country: "DE" }, { country: "germany" }, {}], extra: 1 },
+      forecastSchema
+    );
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "/city",
+      "/days",
+      "/filters/1/country",
+      "/filters/2/country",
+      "/extra",
+    ]);
+  });
+
+  it("uses the first matching anyOf branch", () => {
+    const schema: JsonSchema = { anyOf: [{ type: "integer" }, { type: "string", format: "date" }] };
+    expect(validateJsonSchema("2024-05-01", schema).valid).toBe(true);
+    expect(validateJsonSchema("7", schema).value).toBe(7);
+    expect(validateJsonSchema("May 1st", schema).errors[0].message).toMatch(/does not match any of the allowed schemas/);
+  });
+
+  it("checks string formats", () => {
+    expect(validateJsonSchema("someone@example.com", { type: "string", format: "email" }).valid).toBe(true);
+    expect(validateJsonSchema("not an email", { type: "string", format: "email" }).valid).toBe(false);
+    expect(validateJsonSchema("https://example.com/a", { type: "string", format: "uri" }).valid).toBe(true);
+    expect(validateJsonSchema("example.com/a", { type: "string", format: "uri" }).valid).toBe(false);
+  });
+});
+
+describe("formatValidationErrors", () => {
+  it("lists the errors with dotted paths", () => {
+    expect(
+      formatValidationErrors([
+        { path: "/filters/0/country", message: "must match the pattern ^[A-Z]{2}$" },
+        { path: "", message: "must be of type object (got null null)" },
+      ])
+    ).toBe("- filters.0.country: must match the pattern ^[A-Z]{2}$\n- arguments: must be of type object (got null null)");
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * JSON Schema Validation Utilities
+ *
+ * Validates LLM-chosen tool arguments against a UTCP tool's `inputs` schema
+ * (JSON Schema draft-07 subset) and applies safe coercions along the way,
+ * e.g. "5" → 5 for numbers or "true" → true for booleans.
+ */
+
+import type { JsonSchema } from "@utcp/sdk";
+
+export interface SchemaValidationError {
+  /** JSON pointer-like path to the offending value, e.g. "/filters/0/country" */
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+  /** The input with safe coercions applied */
+  value: unknown;
+}
+
+export const MISSING_PARAMETER_MESSAGE = "is a required parameter but is missing";
+
+type SchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+  hostname: /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i,
+};
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Try to convert a value into the given type without losing information.
+ * Returns undefined when no safe conversion exists.
+ */
+function coerce(value: unknown, type: SchemaType): unknown {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    switch (type) {
+      case "number":
+      case "integer": {
+        if (trimmed === "") return undefined;
+        const num = Number(trimmed);
+        if (Number.isNaN(num) || (type === "integer" && !Number.isInteger(num))) return undefined;
+        return num;
+      }
+      case "boolean":
+        if (trimmed.toLowerCase() === "true") return true;
+        if (trimmed.toLowerCase() === "false") return false;
+        return undefined;
+      case "null":
+        return trimmed === "" || trimmed === "null" ? null : undefined;
+      case "array":
+      case "object":
+        // LLMs sometimes pass structured values as JSON strings
+        try {
+          const parsed = JSON.parse(trimmed);
+          return matchesType(parsed, type) ? parsed : undefined;
+        } catch {
+          return undefined;
+        }
+    }
+  }
+
+  if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text && text.length > 60 ? `${text.substring(0, 60)}...` : String(text);
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): unknown {
+  if (!schema || typeof schema !== "object") {
+    return value;
+  }
+
+  // Composition keywords: use the first branch that validates cleanly
+  const branches = (schema.anyOf || schema.oneOf) as JsonSchema[] | undefined;
+  if (Array.isArray(branches) && branches.length > 0) {
+    let matched = false;
+    for (const branch of branches) {
+      const branchErrors: SchemaValidationError[] = [];
+      const branchValue = validateNode(value, branch, path, branchErrors);
+      if (branchErrors.length === 0) {
+        value = branchValue;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      errors.push({ path, message: `does not match any of the allowed schemas (got ${describe(value)})` });
+      return value;
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const subSchema of schema.allOf as JsonSchema[]) {
+      value = validateNode(value, subSchema, path, errors);
+    }
+  }
+
+  // Type check with coercion
+  if (schema.type) {
+    const allowed = (Array.isArray(schema.type) ? schema.type : [schema.type]) as SchemaType[];
+    if (!allowed.some(type => matchesType(value, type))) {
+      const coerced = allowed.map(type => coerce(value, type)).find(v => v !== undefined);
+      if (coerced === undefined) {
+        errors.push({ path, message: `must be of type ${allowed.join(" or ")} (got ${typeOf(value)} ${describe(value)})` });
+        return value;
+      }
+      value = coerced;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push({ path, message: `must be exactly ${describe(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    // Allow a case-insensitive match for string enums ("US" vs "us")
+    const text = typeof value === "string" ? value.toLowerCase() : null;
+    const caseMatch = text !== null
+      ? schema.enum.find(option => typeof option === "string" && option.toLowerCase() === text)
+      : undefined;
+    if (caseMatch !== undefined) {
+      value = caseMatch;
+    } else {
+      errors.push({ path, message: `must be one of ${schema.enum.map(describe).join(", ")} (got ${describe(value)})` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors.push({ path, message: `must match the pattern ${schema.pattern}` });
+        }
+      } catch {
+        // Ignore patterns that are not valid JavaScript regular expressions
+      }
+    }
+    if (schema.format) {
+      if (schema.format === "uri" || schema.format === "url") {
+        try {
+          new URL(value);
+        } catch {
+          errors.push({ path, message: `must be a valid ${schema.format}` });
+        }
+      } else if (FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+        errors.push({ path, message: `must be a valid ${schema.format}` });
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    const exclusiveMinimum = schema.exclusiveMinimum as number | undefined;
+    const exclusiveMaximum = schema.exclusiveMaximum as number | undefined;
+    const multipleOf = schema.multipleOf as number | undefined;
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+      errors.push({ path, message: `must be > ${exclusiveMinimum}` });
+    }
+    if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+      errors.push({ path, message: `must be < ${exclusiveMaximum}` });
+    }
+    if (typeof multipleOf === "number" && multipleOf > 0 && Math.abs(value / multipleOf - Math.round(value / multipleOf)) > 1e-9) {
+      errors.push({ path, message: `must be a multiple of ${multipleOf}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const minItems = schema.minItems as number | undefined;
+    const maxItems = schema.maxItems as number | undefined;
+    if (typeof minItems === "number" && value.length < minItems) {
+      errors.push({ path, message: `must contain at least ${minItems} items` });
+    }
+    if (typeof maxItems === "number" && value.length > maxItems) {
+      errors.push({ path, message: `must contain at most ${maxItems} items` });
+    }
+    if (schema.items) {
+      value = value.map((item, index) => {
+        const itemSchema = Array.isArray(schema.items) ? schema.items[index] : schema.items;
+        return itemSchema ? validateNode(item, itemSchema, `${path}/${index}`, errors) : item;
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = { ...value };
+    const properties = schema.properties || {};
+
+    for (const requiredKey of schema.required || []) {
+      if (result[requiredKey] === undefined) {
+        errors.push({ path: `${path}/${requiredKey}`, message: MISSING_PARAMETER_MESSAGE });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(result)) {
+      if (properties[key]) {
+        result[key] = validateNode(propertyValue, properties[key], `${path}/${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}/${key}`, message: "is not an allowed parameter" });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        result[key] = validateNode(propertyValue, schema.additionalProperties, `${path}/${key}`, errors);
+      }
+    }
+    value = result;
+  }
+
+  return value;
+}
+
+/**
+ * Validate a value against a JSON Schema, applying safe coercions
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): SchemaValidationResult {
+  const errors: SchemaValidationError[] = [];
+  const coerced = validateNode(value, schema, "", errors);
+  return { valid: errors.length === 0, errors, value: coerced };
+}
+
+/**
+ * Format validation errors as a bullet list suitable for feeding back to the LLM
+ */
+export function formatValidationErrors(errors: SchemaValidationError[]): string {
+  return errors
+    .map(error => `- ${error.path ? error.path.substring(1).replace(/\//g, ".") : "arguments"}: ${error.message}`)
+    .join("\n");
+}
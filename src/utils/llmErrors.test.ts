@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { classifyLLMError, DEFAULT_RETRY_RULES, getRetryDelay } from "./llmErrors";
+
+/**
+ * Error shaped like the provider SDKs' API errors
+ */
+function apiError(message: string, fields: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+describe("classifyLLMError", () => {
+  it("classifies by HTTP status", () => {
+    expect(classifyLLMError(apiError("Request failed", { status: 429 }))).toBe("rate_limit");
+    expect(classifyLLMError(apiError("Request failed", { status: 401 }))).toBe("auth");
+    expect(classifyLLMError(apiError("Request failed", { status: 403 }))).toBe("auth");
+    expect(classifyLLMError(apiError("Request failed", { status: 503 }))).toBe("server");
+    expect(classifyLLMError(apiError("Request failed", { status: 529 }))).toBe("server");
+    expect(classifyLLMError(apiError("Request failed", { status: 408 }))).toBe("timeout");
+    expect(classifyLLMError(apiError("Request failed", { status: 400 }))).toBe("invalid_request");
+  });
+
+  it("reads the status from Gemini error messages", () => {
+    expect(classifyLLMError(new Error("[GoogleGenerativeAI Error]: Error fetching: [429 Too Many Requests] Resource has been exhausted"))).toBe("rate_limit");
+    expect(classifyLLMError(new Error("[GoogleGenerativeAI Error]: Error fetching: [500 Internal Server Error]"))).toBe("server");
+  });
+
+  it("classifies by error code", () => {
+    expect(classifyLLMError(apiError("Bad request", { status: 400, code: "context_length_exceeded" }))).toBe("context_length");
+    expect(classifyLLMError(apiError("Bad request", { lc_error_code: "MODEL_RATE_LIMIT" }))).toBe("rate_limit");
+  });
+
+  it("prefers a context length error over the status", () => {
+    expect(classifyLLMError(apiError("prompt is too long: 210000 tokens > 200000 maximum", { status: 400 }))).toBe("context_length");
+  });
+
+  it("classifies by message when there is no status", () => {
+    expect(classifyLLMError(new Error("Incorrect API key provided"))).toBe("auth");
+    expect(classifyLLMError(new Error("Overloaded"))).toBe("server");
+    expect(classifyLLMError(apiError("Request timed out.", { name: "APIConnectionTimeoutError" }))).toBe("timeout");
+    expect(classifyLLMError(new TypeError("Failed to fetch"))).toBe("network");
+    expect(classifyLLMError("something unexpected")).toBe("invalid_request");
+  });
+});
+
+describe("getRetryDelay", () => {
+  const rule = DEFAULT_RETRY_RULES.rate_limit;
+
+  it("backs off exponentially", () => {
+    const error = apiError("Rate limit reached", { status: 429 });
+    expect([0, 1, 2].map((attempt) => getRetryDelay(error, rule, attempt))).toEqual([2000, 4000, 8000]);
+  });
+
+  it("follows Retry-After headers", () => {
+    expect(getRetryDelay(apiError("Rate limit reached", { headers: new Headers({ "retry-after": "3" }) }), rule, 2)).toBe(3000);
+    expect(getRetryDelay(apiError("Rate limit reached", { headers: { "retry-after": "1.5" } }), rule, 0)).toBe(1500);
+  });
+
+  it("caps the delay", () => {
+    expect(getRetryDelay(apiError("Rate limit reached", { headers: { "retry-after": "600" } }), rule, 0)).toBe(30000);
+    expect(getRetryDelay(new Error("Overloaded"), rule, 10)).toBe(30000);
+  });
+});
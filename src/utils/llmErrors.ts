@@ -0,0 +1,102 @@
+/**
+ * LLM Error Classification
+ *
+ * Sorts provider errors (OpenAI, Anthropic and Gemini SDKs, plus LangChain's
+ * error codes) into classes with retry/backoff rules, used by the agent's
+ * model fallback chain.
+ */
+
+import type { LLMErrorClass, LLMRetryRule } from "@/types/llm.types";
+
+export const DEFAULT_RETRY_RULES: Record<LLMErrorClass, LLMRetryRule> = {
+  rate_limit: { retries: 2, backoffMs: 2000, fallback: true },
+  server: { retries: 1, backoffMs: 1000, fallback: true },
+  timeout: { retries: 1, backoffMs: 1000, fallback: true },
+  network: { retries: 1, backoffMs: 1000, fallback: true },
+  // Another provider has its own key and may still work
+  auth: { retries: 0, backoffMs: 0, fallback: true },
+  // A fallback may have a larger context window
+  context_length: { retries: 0, backoffMs: 0, fallback: true },
+  invalid_request: { retries: 0, backoffMs: 0, fallback: false },
+};
+
+export const LLM_ERROR_CLASS_LABELS: Record<LLMErrorClass, string> = {
+  rate_limit: "Rate limit",
+  server: "Server error",
+  timeout: "Timeout",
+  network: "Network error",
+  auth: "Authentication",
+  context_length: "Context too long",
+  invalid_request: "Invalid request",
+};
+
+// Never wait longer than this between retries, whatever the provider asks for
+const MAX_RETRY_DELAY_MS = 30000;
+
+interface ProviderError {
+  name?: string;
+  message?: string;
+  status?: number;
+  code?: string | null;
+  lc_error_code?: string;
+  headers?: Headers | Record<string, string>;
+}
+
+function getStatus(error: ProviderError): number | undefined {
+  if (typeof error.status === "number") {
+    return error.status;
+  }
+  // Gemini errors only carry the status in the message, e.g. "[429 Too Many Requests]"
+  const match = error.message?.match(/\[(\d{3})[ \]]/);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function classifyLLMError(error: unknown): LLMErrorClass {
+  const providerError = (error ?? {}) as ProviderError;
+  const message = (providerError.message || String(error)).toLowerCase();
+  const status = getStatus(providerError);
+  const code = `${providerError.code ?? ""} ${providerError.lc_error_code ?? ""}`.toLowerCase();
+
+  if (code.includes("context_length") || /context length|context window|too many tokens|prompt is too long/.test(message)) {
+    return "context_length";
+  }
+  if (status === 429 || code.includes("rate_limit") || /rate limit|quota|too many requests|resource.?exhausted/.test(message)) {
+    return "rate_limit";
+  }
+  if (status === 401 || status === 403 || code.includes("authentication") || /api key|unauthori[sz]ed|permission/.test(message)) {
+    return "auth";
+  }
+  if (status !== undefined && (status >= 500 || status === 408 || status === 529)) {
+    return status === 408 ? "timeout" : "server";
+  }
+  if (/overloaded|internal server error|service unavailable|bad gateway/.test(message)) {
+    return "server";
+  }
+  if (providerError.name?.includes("Timeout") || /timed? ?out/.test(message)) {
+    return "timeout";
+  }
+  if (providerError.name === "APIConnectionError" || /failed to fetch|network|connection|econnrefused|fetch failed/.test(message)) {
+    return "network";
+  }
+  return "invalid_request";
+}
+
+function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as ProviderError | undefined)?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  const value = typeof headers.get === "function"
+    ? headers.get("retry-after")
+    : (headers as Record<string, string>)["retry-after"];
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the provider's Retry-After, or exponential backoff
+ */
+export function getRetryDelay(error: unknown, rule: LLMRetryRule, attempt: number): number {
+  const delay = getRetryAfterMs(error) ?? rule.backoffMs * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,133 @@
+/**
+ * LLM Provider Factory
+ *
+ * Builds LangChain chat models from an LLMConfig. Used by the chat agent and
+ * the call template generator so provider rules live in one place.
+ */
+
+import { ChatOpenAI, type ChatOpenAIFields } from "@langchain/openai";
+import { ChatAnthropic, type AnthropicInput } from "@langchain/anthropic";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import type { BaseLanguageModel } from "@langchain/core/language_models/base";
+import type { BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { LLM_PROVIDERS, type LLMConfig } from "@/types/llm.types";
+import { getModelCapabilities } from "@/utils/modelCapabilities";
+
+/**
+ * Sampling settings the model accepts. Reasoning models run at their default temperature
+ * and spend output tokens on hidden reasoning, so both settings are left to the provider.
+ */
+function getSamplingOptions(config: LLMConfig, model: string): { temperature?: number; maxTokens?: number } {
+  const capabilities = getModelCapabilities(config.provider, model, config.capabilityOverrides);
+  if (!capabilities.supportsTemperature) {
+    return {};
+  }
+  return {
+    temperature: config.temperature,
+    maxTokens: config.maxTokens ? Math.min(config.maxTokens, capabilities.maxOutputTokens) : undefined,
+  };
+}
+
+export interface CreateLLMOptions {
+  /** Retries done by LangChain itself; set to 0 when the caller handles retries (e.g. the agent's fallback chain) */
+  maxRetries?: number;
+}
+
+function createOpenAIModel(config: LLMConfig, model: string, apiKey: string | undefined, options: CreateLLMOptions): ChatOpenAI {
+  const openaiConfig: ChatOpenAIFields = {
+    model,
+    apiKey,
+    maxRetries: options.maxRetries,
+    configuration: {
+      baseURL: config.baseUrl || LLM_PROVIDERS[config.provider].defaultBaseUrl,
+      organization: config.organizationId,
+    },
+    ...getSamplingOptions(config, model),
+  };
+
+  return new ChatOpenAI(openaiConfig);
+}
+
+/**
+ * Create a chat model for the configured provider.
+ * Pass `model` to build another model of the same provider (e.g. a per-phase model).
+ */
+export function createLLM(config: LLMConfig, model: string = config.model, options: CreateLLMOptions = {}): BaseLanguageModel {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIModel(config, model, config.apiKey, options);
+
+    case "openai-compatible":
+      if (!model) {
+        throw new Error("Please add the models served by your OpenAI-compatible endpoint");
+      }
+      // Local servers like Ollama ignore the key, but the OpenAI client refuses to run without one
+      return createOpenAIModel(config, model, config.apiKey || "not-needed", options);
+
+    case "anthropic": {
+      const anthropicConfig: AnthropicInput & BaseChatModelParams = {
+        modelName: model,
+        apiKey: config.apiKey,
+        ...getSamplingOptions(config, model),
+        anthropicApiUrl: config.baseUrl || undefined,
+        maxRetries: options.maxRetries,
+      };
+      return new ChatAnthropic(anthropicConfig);
+    }
+
+    case "google": {
+      const { temperature, maxTokens } = getSamplingOptions(config, model);
+      return new ChatGoogleGenerativeAI({
+        model,
+        apiKey: config.apiKey,
+        temperature,
+        maxOutputTokens: maxTokens,
+        baseUrl: config.baseUrl || undefined,
+        maxRetries: options.maxRetries,
+      });
+    }
+
+    default:
+      throw new Error(`Provider ${config.provider} is not yet supported. Please use OpenAI, an OpenAI-compatible endpoint, Anthropic, or Google Gemini.`);
+  }
+}
+
+/**
+ * Set the provider's API key environment variables for LangChain
+ * (fallback if direct API key passing fails)
+ */
+export function setProviderEnvironment(config: LLMConfig): void {
+  if (typeof process === "undefined" || !process.env || !config.apiKey) {
+    return;
+  }
+
+  switch (config.provider) {
+    case "openai":
+      process.env.OPENAI_API_KEY = config.apiKey;
+      if (config.organizationId) {
+        process.env.OPENAI_ORGANIZATION = config.organizationId;
+      }
+      break;
+    case "anthropic":
+      process.env.ANTHROPIC_API_KEY = config.apiKey;
+      break;
+    case "google":
+      process.env.GOOGLE_API_KEY = config.apiKey;
+      break;
+  }
+}
+
+// Every variable setProviderEnvironment may have written
+const PROVIDER_ENVIRONMENT_VARIABLES = ["OPENAI_API_KEY", "OPENAI_ORGANIZATION", "ANTHROPIC_API_KEY", "GOOGLE_API_KEY"];
+
+/**
+ * Remove the keys set by setProviderEnvironment, e.g. when the secret vault locks
+ */
+export function clearProviderEnvironment(): void {
+  if (typeof process === "undefined" || !process.env) {
+    return;
+  }
+  for (const name of PROVIDER_ENVIRONMENT_VARIABLES) {
+    delete process.env[name];
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { AIMessage, HumanMessage, mapChatMessagesToStoredMessages, mapStoredMessagesToChatMessages } from "@langchain/core/messages";
+import type { Message } from "@/types/chat.types";
+import { createUserTurnMessage, isUserTurnMessage, uiMessagesToLangChainMessages } from "./messageConverter";
+
+function uiMessage(role: Message["role"], content: string, toolCalls?: Message["toolCalls"]): Message {
+  return { id: crypto.randomUUID(), role, content, timestamp: new Date(0), toolCalls };
+}
+
+describe("user turn messages", () => {
+  it("tells the user's messages apart from tool results", () => {
+    expect(isUserTurnMessage(createUserTurnMessage("What is the weather?"))).toBe(true);
+    expect(isUserTurnMessage(new HumanMessage("Tool result: {}"))).toBe(false);
+    expect(isUserTurnMessage(new AIMessage({ content: "Hi", additional_kwargs: { userTurn: true } }))).toBe(false);
+  });
+
+  it("keeps the marker when the history is stored and restored", () => {
+    const stored = JSON.parse(JSON.stringify(mapChatMessagesToStoredMessages([
+      createUserTurnMessage("What is the weather?"),
+      new HumanMessage("Tool result: {}"),
+    ])));
+    expect(mapStoredMessagesToChatMessages(stored).map(isUserTurnMessage)).toEqual([true, false]);
+  });
+});
+
+describe("uiMessagesToLangChainMessages", () => {
+  it("rebuilds the history with user turns and tool calls before the response", () => {
+    const history = uiMessagesToLangChainMessages([
+      uiMessage("user", "Weather in Berlin?"),
+      uiMessage("assistant", "It is sunny.", [
+        { toolName: "weather.get_forecast", arguments: { city: "Berlin" }, result: { sky: "sunny" } },
+        { toolName: "weather.get_alerts", arguments: {}, error: "timeout" },
+      ]),
+    ]);
+    expect(history.map((message) => [message._getType(), message.content])).toEqual([
+      ["human", "Weather in Berlin?"],
+      ["ai", 'Tool called: weather.get_forecast with arguments: {"city":"Berlin"}'],
+      ["human", 'Tool result: {"sky":"sunny"}'],
+      ["ai", "Tool called: weather.get_alerts with arguments: {}"],
+      ["human", "Error: weather.get_alerts failed: timeout"],
+      ["ai", "It is sunny."],
+    ]);
+    expect(history.map(isUserTurnMessage)).toEqual([true, false, false, false, false, false]);
+  });
+
+  it("shortens long tool results", () => {
+    const [, , result] = uiMessagesToLangChainMessages([
+      uiMessage("user", "Dump it"),
+      uiMessage("assistant", "Done.", [{ toolName: "data.dump", arguments: {}, result: "x".repeat(10000) }]),
+    ]);
+    expect(String(result.content)).toMatch(/^Tool result: x+\.\.\. \(truncated\)$/);
+    expect(String(result.content).length).toBeLessThan(8100);
+  });
+});
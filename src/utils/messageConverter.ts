@@ -7,7 +7,26 @@
 
 import type { BaseMessage } from "@langchain/core/messages";
 import { HumanMessage, AIMessage, SystemMessage } from "@langchain/core/messages";
-import type { Message, MessageRole } from "@/types/chat.types";
+import type { Message, MessageRole, ToolCall } from "@/types/chat.types";
+
+// Longer tool results are cut when rebuilding the agent's history from the chat
+const MAX_TOOL_RESULT_CHARS = 8000;
+
+/**
+ * Human message holding something the user typed. The agent also records tool
+ * results as human messages, so the user's turns carry a marker; it is kept
+ * when the history is stored and is not sent to the providers.
+ */
+export function createUserTurnMessage(content: string): HumanMessage {
+  return new HumanMessage({ content, additional_kwargs: { userTurn: true } });
+}
+
+/**
+ * Whether a history message starts a user turn (see createUserTurnMessage)
+ */
+export function isUserTurnMessage(message: BaseMessage): boolean {
+  return message._getType() === "human" && message.additional_kwargs.userTurn === true;
+}
 
 /**
  * Convert LangChain BaseMessage to UI Message format
@@ -49,7 +68,7 @@ export function uiMessageToLangChainMessage(message: Message): BaseMessage {
 
   switch (message.role) {
     case "user":
-      return new HumanMessage(content);
+      return createUserTurnMessage(content);
     case "assistant":
       return new AIMessage(content);
     case "system":
@@ -59,6 +78,21 @@ export function uiMessageToLangChainMessage(message: Message): BaseMessage {
   }
 }
 
+/**
+ * Tool call in the form the agent records it in its history: the call, then the result or error
+ */
+function toolCallToLangChainMessages(toolCall: ToolCall): BaseMessage[] {
+  const call = new AIMessage(`Tool called: ${toolCall.toolName} with arguments: ${JSON.stringify(toolCall.arguments)}`);
+  if (toolCall.error) {
+    return [call, new HumanMessage(`Error: ${toolCall.toolName} failed: ${toolCall.error}`)];
+  }
+  const result = typeof toolCall.result === "string" ? toolCall.result : JSON.stringify(toolCall.result) ?? "";
+  const text = result.length > MAX_TOOL_RESULT_CHARS
+    ? `${result.substring(0, MAX_TOOL_RESULT_CHARS)}... (truncated)`
+    : result;
+  return [call, new HumanMessage(text.trim() === "" ? "Result is empty." : `Tool result: ${text}`)];
+}
+
 /**
  * Convert array of LangChain messages to UI messages
  */
@@ -69,10 +103,15 @@ export function langChainMessagesToUIMessages(
 }
 
 /**
- * Convert array of UI messages to LangChain messages
+ * Convert array of UI messages to LangChain messages. Tool calls recorded on
+ * assistant messages come before the response, so the result is a history
+ * the agent can continue from.
  */
 export function uiMessagesToLangChainMessages(messages: Message[]): BaseMessage[] {
-  return messages.map((msg) => uiMessageToLangChainMessage(msg));
+  return messages.flatMap((msg) => [
+    ...(msg.role === "assistant" ? (msg.toolCalls || []).flatMap(toolCallToLangChainMessages) : []),
+    uiMessageToLangChainMessage(msg),
+  ]);
 }
 
 /**
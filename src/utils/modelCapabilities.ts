@@ -0,0 +1,101 @@
+/**
+ * Model Capability Registry
+ *
+ * Known capabilities per provider and model family, consulted by the LLM
+ * factory, the agent and the LLM settings. Users can override any value per
+ * model (LLMConfig.capabilityOverrides), e.g. for models served by an
+ * OpenAI-compatible endpoint.
+ */
+
+import type { LLMConfig, LLMProvider, ModelCapabilities } from "@/types/llm.types";
+
+interface CapabilityRule {
+  /** Matched against the lower-cased model name without any "vendor/" prefix */
+  pattern: RegExp;
+  capabilities: Partial<ModelCapabilities>;
+}
+
+const FALLBACK_CAPABILITIES: ModelCapabilities = {
+  supportsSystemMessage: true,
+  supportsTemperature: true,
+  supportsNativeTools: true,
+  supportsVision: false,
+  contextWindow: 128000,
+  maxOutputTokens: 4096,
+};
+
+const PROVIDER_DEFAULTS: Record<LLMProvider, Partial<ModelCapabilities>> = {
+  openai: { contextWindow: 128000, maxOutputTokens: 16384 },
+  // Local models mostly lack reliable tool calling; known tool-capable families are listed below
+  "openai-compatible": { supportsNativeTools: false, contextWindow: 32768, maxOutputTokens: 4096 },
+  anthropic: { supportsVision: true, contextWindow: 200000, maxOutputTokens: 8192 },
+  google: { supportsVision: true, contextWindow: 1048576, maxOutputTokens: 8192 },
+};
+
+// All matching rules apply in order, so more specific rules come after the family rule
+const CAPABILITY_RULES: CapabilityRule[] = [
+  // OpenAI
+  { pattern: /^gpt-3\.5/, capabilities: { contextWindow: 16385, maxOutputTokens: 4096 } },
+  { pattern: /^gpt-4-turbo/, capabilities: { supportsVision: true, contextWindow: 128000, maxOutputTokens: 4096 } },
+  { pattern: /^(gpt-4o|chatgpt-4o)/, capabilities: { supportsVision: true, contextWindow: 128000, maxOutputTokens: 16384 } },
+  { pattern: /^gpt-4\.1/, capabilities: { supportsVision: true, contextWindow: 1047576, maxOutputTokens: 32768 } },
+  { pattern: /^gpt-5/, capabilities: { supportsTemperature: false, supportsVision: true, contextWindow: 400000, maxOutputTokens: 128000 } },
+  { pattern: /^gpt-5-chat/, capabilities: { supportsTemperature: true, contextWindow: 128000, maxOutputTokens: 16384 } },
+  { pattern: /^o\d/, capabilities: { supportsTemperature: false, supportsVision: true, contextWindow: 200000, maxOutputTokens: 100000 } },
+  { pattern: /^o[13]-mini/, capabilities: { supportsVision: false } },
+  {
+    pattern: /^o1-(mini|preview)/,
+    capabilities: { supportsSystemMessage: false, supportsNativeTools: false, contextWindow: 128000, maxOutputTokens: 65536 },
+  },
+
+  // Anthropic
+  { pattern: /^claude/, capabilities: { supportsNativeTools: true, supportsVision: true, contextWindow: 200000, maxOutputTokens: 8192 } },
+  { pattern: /^claude-(sonnet-4|3-7-sonnet|haiku-4)/, capabilities: { maxOutputTokens: 64000 } },
+  { pattern: /^claude-opus-4/, capabilities: { maxOutputTokens: 32000 } },
+
+  // Google
+  { pattern: /^gemini/, capabilities: { supportsNativeTools: true, supportsVision: true, contextWindow: 1048576, maxOutputTokens: 8192 } },
+  { pattern: /^gemini-1\.5-pro/, capabilities: { contextWindow: 2097152 } },
+  { pattern: /^gemini-2\.5/, capabilities: { maxOutputTokens: 65536 } },
+
+  // Open models commonly served through OpenAI-compatible endpoints
+  {
+    pattern: /^(llama-?3\.[123]|qwen2\.5|qwen3|mistral-(nemo|small|large)|command-r|hermes3|firefunction)/,
+    capabilities: { supportsNativeTools: true },
+  },
+  { pattern: /^deepseek-r1/, capabilities: { supportsNativeTools: false } },
+  { pattern: /(llava|vision|-vl\b)/, capabilities: { supportsVision: true } },
+];
+
+function normalizeModelName(model: string): string {
+  const name = model.toLowerCase();
+  return name.substring(name.lastIndexOf("/") + 1);
+}
+
+/**
+ * Capabilities the registry knows for a model, without user overrides
+ */
+export function getRegistryCapabilities(provider: LLMProvider | undefined, model: string): ModelCapabilities {
+  const name = normalizeModelName(model);
+  const capabilities: ModelCapabilities = {
+    ...FALLBACK_CAPABILITIES,
+    ...(provider ? PROVIDER_DEFAULTS[provider] : undefined),
+  };
+  for (const rule of CAPABILITY_RULES) {
+    if (rule.pattern.test(name)) {
+      Object.assign(capabilities, rule.capabilities);
+    }
+  }
+  return capabilities;
+}
+
+/**
+ * Effective capabilities of a model: the registry entry with the user's overrides applied
+ */
+export function getModelCapabilities(
+  provider: LLMProvider | undefined,
+  model: string,
+  overrides?: LLMConfig["capabilityOverrides"]
+): ModelCapabilities {
+  return { ...getRegistryCapabilities(provider, model), ...overrides?.[model] };
+}
@@ -0,0 +1,117 @@
+/**
+ * Model Discovery
+ *
+ * Fetches the models available to the configured account from each
+ * provider's model-listing endpoint, using the configured API key and base URL.
+ */
+
+import { LLM_PROVIDERS, type LLMConfig } from "@/types/llm.types";
+
+// OpenAI lists every model of the account; keep the ones usable for chat
+const OPENAI_CHAT_MODEL = /^(gpt-|chatgpt-|o\d)/;
+const OPENAI_NON_CHAT_MODEL = /(embedding|whisper|tts|dall-e|audio|realtime|transcribe|image|moderation|search)/;
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+async function getJson<T>(url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    let detail = "";
+    try {
+      const body = await response.json();
+      detail = body?.error?.message || body?.message || "";
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(`Model list request failed (${response.status}${detail ? `: ${detail}` : ""})`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function fetchOpenAIModels(config: LLMConfig, baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+  const headers: Record<string, string> = {};
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  if (config.provider === "openai" && config.organizationId) {
+    headers["OpenAI-Organization"] = config.organizationId;
+  }
+
+  const body = await getJson<{ data?: Array<{ id: string }> }>(`${baseUrl}/models`, headers, signal);
+  const ids = (body.data || []).map(model => model.id);
+  if (config.provider !== "openai") {
+    // Self-hosted servers only list what they can serve
+    return ids.sort();
+  }
+  return ids.filter(id => OPENAI_CHAT_MODEL.test(id) && !OPENAI_NON_CHAT_MODEL.test(id)).sort();
+}
+
+async function fetchAnthropicModels(config: LLMConfig, baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+  const models: string[] = [];
+  let afterId: string | undefined;
+  do {
+    const url = `${baseUrl}/v1/models?limit=1000${afterId ? `&after_id=${encodeURIComponent(afterId)}` : ""}`;
+    const body = await getJson<{ data?: Array<{ id: string }>; has_more?: boolean; last_id?: string }>(
+      url,
+      {
+        "x-api-key": config.apiKey || "",
+        "anthropic-version": "2023-06-01",
+        // Required for requests made straight from the browser
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      signal
+    );
+    models.push(...(body.data || []).map(model => model.id));
+    afterId = body.has_more ? body.last_id : undefined;
+  } while (afterId);
+  // Already sorted newest first
+  return models;
+}
+
+async function fetchGoogleModels(config: LLMConfig, baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+  const models: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const url = `${baseUrl}/v1beta/models?pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ""}`;
+    const body = await getJson<{
+      models?: Array<{ name: string; supportedGenerationMethods?: string[] }>;
+      nextPageToken?: string;
+    }>(url, { "x-goog-api-key": config.apiKey || "" }, signal);
+    models.push(
+      ...(body.models || [])
+        .filter(model => model.supportedGenerationMethods?.includes("generateContent"))
+        .map(model => model.name.replace(/^models\//, ""))
+    );
+    pageToken = body.nextPageToken;
+  } while (pageToken);
+  return models;
+}
+
+/**
+ * Fetch the chat models available for the configured provider.
+ * Throws when the endpoint is unreachable or rejects the credentials.
+ */
+export async function fetchProviderModels(config: LLMConfig, signal?: AbortSignal): Promise<string[]> {
+  const providerInfo = LLM_PROVIDERS[config.provider];
+  if (!providerInfo) {
+    throw new Error(`Unknown provider: ${config.provider}`);
+  }
+  if (providerInfo.requiresApiKey && !config.apiKey) {
+    throw new Error(`Please set your ${providerInfo.name} API key to load its models`);
+  }
+
+  const baseUrl = trimTrailingSlash(config.baseUrl || providerInfo.defaultBaseUrl || "");
+  switch (config.provider) {
+    case "openai":
+    case "openai-compatible":
+      return fetchOpenAIModels(config, baseUrl, signal);
+    case "anthropic":
+      return fetchAnthropicModels(config, baseUrl, signal);
+    case "google":
+      return fetchGoogleModels(config, baseUrl, signal);
+    default:
+      throw new Error(`Model discovery is not supported for ${config.provider}`);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_NAMES,
+  renderPromptTemplate,
+  resolvePromptTemplates,
+  validatePromptTemplate,
+} from "./promptTemplates";
+
+describe("renderPromptTemplate", () => {
+  it("fills in known placeholders and leaves everything else alone", () => {
+    expect(renderPromptTemplate('Task: {task}\nAnswer as {"action": "respond"} or {unknown}.', { task: "Get the weather" })).toBe(
+      'Task: Get the weather\nAnswer as {"action": "respond"} or {unknown}.'
+    );
+  });
+
+  it("replaces repeated placeholders and does not expand placeholders in values", () => {
+    expect(renderPromptTemplate("{task} / {task}", { task: "{tools}", tools: "none" })).toBe("{tools} / {tools}");
+  });
+
+  it("does not treat inherited properties as values", () => {
+    expect(renderPromptTemplate("{constructor}", {})).toBe("{constructor}");
+  });
+});
+
+describe("validatePromptTemplate", () => {
+  it("accepts all default templates", () => {
+    for (const name of PROMPT_TEMPLATE_NAMES) {
+      expect(validatePromptTemplate(name, DEFAULT_PROMPT_TEMPLATES[name])).toEqual([]);
+    }
+  });
+
+  it("reports empty templates, missing required and unknown placeholders", () => {
+    expect(validatePromptTemplate("respond", "  ")).toEqual(["The prompt is empty"]);
+    expect(validatePromptTemplate("decide", "Do {task} with {tool}")).toEqual([
+      "Missing the {tools} placeholder",
+      "Unknown placeholder {tool}",
+    ]);
+  });
+
+  it("allows the optional placeholders", () => {
+    expect(validatePromptTemplate("respond", "Answer {task} using {tools} given {history}")).toEqual([]);
+    expect(validatePromptTemplate("revise", "Fix {step} in {plan} for {goal} within {maxSteps} steps")).toEqual([]);
+    expect(validatePromptTemplate("summarize", "{history} {task}")).toEqual(["Unknown placeholder {task}"]);
+  });
+});
+
+describe("resolvePromptTemplates", () => {
+  it("uses valid overrides and the defaults for everything else", () => {
+    const templates = resolvePromptTemplates({ respond: "Be brief." });
+    expect(templates.respond).toBe("Be brief.");
+    expect(templates.decide).toBe(DEFAULT_PROMPT_TEMPLATES.decide);
+  });
+
+  it("falls back to the default for invalid overrides", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(resolvePromptTemplates({ decide: "Pick a tool" }).decide).toBe(DEFAULT_PROMPT_TEMPLATES.decide);
+    expect(warn).toHaveBeenCalledWith('[PromptTemplates] Ignoring invalid "decide" template, using the default');
+    warn.mockRestore();
+  });
+});
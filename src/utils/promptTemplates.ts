@@ -0,0 +1,138 @@
+/**
+ * Prompt Templates
+ *
+ * Default texts of the agent's editable prompts (including the planning-mode
+ * ones), the placeholders each one may use and the rendering and validation
+ * of user-edited templates.
+ * Placeholders are written as {name}; JSON examples in a template are left
+ * alone because only known names are replaced.
+ */
+
+import type { PromptTemplateName, PromptTemplates } from "@/types/agent.types";
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  analyze: "Based on the conversation history, what is the next step that needs to be accomplished? Respond with a concise next step description. Do not include 'the next step is' just the next step description.",
+  decide: `Given the current task: "{task}"
+
+Available tools:
+{tools}`,
+  respond: "Based on the conversation history, provide a helpful summary response to the user.\n\nIf tools were called and results obtained, summarize what was accomplished and provide the relevant information from the tool results.\nIf no tools were needed, provide a direct helpful response.\n\nBe concise and helpful.",
+  summarize: `Please summarize the following conversation history concisely, preserving key information, decisions made, and context:
+
+{history}
+
+Provide a concise summary that captures the essential points and context.`,
+  plan: `Create a step-by-step plan for the current task: "{task}"
+
+Available tools:
+{tools}
+
+Guidelines:
+- Use between 1 and {maxSteps} steps. Each step should be one concrete action, usually a single tool call or a group of independent calls.
+- Do not add a final "answer the user" step; the response is written automatically once the plan is done.`,
+  revise: `The plan step "{step}" failed. This is the current plan:
+{plan}
+
+Revise the remaining work so the goal "{goal}" can still be reached, taking the errors above into account.
+List only the steps that still need to be done (at most {maxSteps}). If the goal cannot be reached, return an empty list.`,
+};
+
+interface PromptTemplateInfo {
+  label: string;
+  description: string;
+  /** Placeholders the template must contain */
+  required: string[];
+  /** Further placeholders the agent fills in; no others are allowed */
+  optional: string[];
+}
+
+export const PROMPT_TEMPLATE_INFO: Record<PromptTemplateName, PromptTemplateInfo> = {
+  analyze: {
+    label: "Analyze",
+    description: "Appended to the system prompt to work out the next step from the conversation",
+    required: [],
+    optional: ["history"],
+  },
+  decide: {
+    label: "Decide",
+    description: "Chooses between calling tools and responding; the expected answer format is added by the agent",
+    required: ["task", "tools"],
+    optional: ["history"],
+  },
+  respond: {
+    label: "Respond",
+    description: "Asks for the final answer to the user after the conversation and tool results",
+    required: [],
+    optional: ["task", "tools", "history"],
+  },
+  summarize: {
+    label: "Summarize",
+    description: "Condenses older messages when the context gets too long",
+    required: ["history"],
+    optional: [],
+  },
+  plan: {
+    label: "Plan",
+    description: "Creates the plan in planning mode; the expected answer format is added by the agent",
+    required: ["task", "tools"],
+    optional: ["maxSteps", "history"],
+  },
+  revise: {
+    label: "Revise",
+    description: "Revises the remaining plan after a step failed; the expected answer format is added by the agent",
+    required: ["step", "plan"],
+    optional: ["goal", "maxSteps", "history"],
+  },
+};
+
+export const PROMPT_TEMPLATE_NAMES = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateName[];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Fill in a template's placeholders; unknown ones are kept as written
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
+
+/**
+ * Problems with an edited template; empty when it can be used
+ */
+export function validatePromptTemplate(name: PromptTemplateName, template: string): string[] {
+  if (!template.trim()) {
+    return ["The prompt is empty"];
+  }
+  const { required, optional } = PROMPT_TEMPLATE_INFO[name];
+  const used = new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]));
+  const errors = required
+    .filter((placeholder) => !used.has(placeholder))
+    .map((placeholder) => `Missing the {${placeholder}} placeholder`);
+  for (const placeholder of used) {
+    if (!required.includes(placeholder) && !optional.includes(placeholder)) {
+      errors.push(`Unknown placeholder {${placeholder}}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Templates with the overrides applied; invalid overrides fall back to the default
+ */
+export function resolvePromptTemplates(overrides?: Partial<PromptTemplates>): PromptTemplates {
+  const templates = { ...DEFAULT_PROMPT_TEMPLATES };
+  for (const name of PROMPT_TEMPLATE_NAMES) {
+    const template = overrides?.[name];
+    if (template === undefined) {
+      continue;
+    }
+    if (validatePromptTemplate(name, template).length === 0) {
+      templates[name] = template;
+    } else {
+      console.warn(`[PromptTemplates] Ignoring invalid "${name}" template, using the default`);
+    }
+  }
+  return templates;
+}
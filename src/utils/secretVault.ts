@@ -0,0 +1,205 @@
+/**
+ * Secret Vault
+ *
+ * Keeps LLM API keys and protected UTCP variables out of plain-text
+ * localStorage. In "encrypted" mode the secrets are encrypted with a
+ * passphrase-derived key (PBKDF2 + AES-GCM) whenever they change, restored
+ * into the stores on unlock and wiped from memory when the vault locks.
+ */
+
+import { useLLMStore } from "@/stores/llmStore";
+import { useUtcpConfigStore } from "@/stores/utcpConfigStore";
+import { useVaultStore } from "@/stores/vaultStore";
+import { createSalt, decryptJson, deriveKey, encryptJson } from "@/utils/crypto";
+import { clearProviderEnvironment } from "@/utils/llmFactory";
+import {
+  applyLLMSecrets,
+  applyVariableSecrets,
+  collectLLMSecrets,
+  collectVariableSecrets,
+  stripLLMSecrets,
+  stripVariableSecrets,
+  type SecretMap,
+} from "@/utils/secrets";
+
+// Batch rapid changes (e.g. typing a key) into one encryption
+const SAVE_DEBOUNCE_MS = 300;
+const AUTO_LOCK_CHECK_MS = 15_000;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "mousemove", "wheel"] as const;
+
+function getVariables(): Record<string, string> {
+  return (useUtcpConfigStore.getState().configDict.variables as Record<string, string> | undefined) || {};
+}
+
+function setVariables(variables: Record<string, string>): void {
+  useUtcpConfigStore.setState((state) => ({ configDict: { ...state.configDict, variables } }));
+}
+
+function collectSecrets(): SecretMap {
+  const { config, profiles } = useLLMStore.getState();
+  return {
+    ...collectLLMSecrets(config, profiles),
+    ...collectVariableSecrets(getVariables(), useVaultStore.getState().protectedVariables),
+  };
+}
+
+function applySecrets(secrets: SecretMap): void {
+  useLLMStore.setState((state) => applyLLMSecrets(state.config, state.profiles, secrets));
+  setVariables(applyVariableSecrets(getVariables(), useVaultStore.getState().protectedVariables, secrets));
+}
+
+function clearSecrets(): void {
+  useLLMStore.setState((state) => stripLLMSecrets(state.config, state.profiles));
+  setVariables(stripVariableSecrets(getVariables(), useVaultStore.getState().protectedVariables));
+  // LangChain's fallback copies of the keys
+  clearProviderEnvironment();
+}
+
+/**
+ * Re-write the settings stores so localStorage reflects the current vault mode
+ */
+function persistStores(): void {
+  useLLMStore.setState({});
+  useUtcpConfigStore.setState({});
+}
+
+async function saveVault(): Promise<void> {
+  const { mode, key, vault, setVault } = useVaultStore.getState();
+  if (mode !== "encrypted" || !key || !vault) {
+    return;
+  }
+  setVault(await encryptJson(collectSecrets(), key, vault.salt, vault.iterations));
+}
+
+/**
+ * Encrypted vault that has not been unlocked in this session
+ */
+export function isVaultLocked(): boolean {
+  const { mode, vault, key } = useVaultStore.getState();
+  return mode === "encrypted" && !!vault && !key;
+}
+
+/**
+ * Switch to encrypted mode with a new passphrase; the current secrets move into the vault
+ */
+export async function enableEncryptedVault(passphrase: string): Promise<void> {
+  if (isVaultLocked()) {
+    throw new Error("Unlock the vault first");
+  }
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  const { setKey, setVault, setMode } = useVaultStore.getState();
+  setKey(key);
+  setVault(await encryptJson(collectSecrets(), key, salt));
+  setMode("encrypted");
+  persistStores();
+}
+
+/**
+ * Switch to plain or session-only mode; the encrypted vault is discarded
+ */
+export function setUnencryptedMode(mode: "plain" | "session"): void {
+  if (isVaultLocked()) {
+    throw new Error("Unlock the vault first");
+  }
+  const { setKey, setVault, setMode } = useVaultStore.getState();
+  setMode(mode);
+  setVault(null);
+  setKey(null);
+  if (mode === "session") {
+    // The models get their keys directly; the copies return when the agent is next built
+    clearProviderEnvironment();
+  }
+  persistStores();
+}
+
+/**
+ * Decrypt the vault and restore its secrets. Throws on a wrong passphrase.
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const { vault, setKey } = useVaultStore.getState();
+  if (!vault) {
+    throw new Error("There is no vault to unlock");
+  }
+  const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+  let secrets: SecretMap;
+  try {
+    secrets = await decryptJson<SecretMap>(vault, key);
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+  setKey(key);
+  applySecrets(secrets);
+  // Keys entered while the vault was locked were kept; store them in the vault
+  await saveVault();
+}
+
+/**
+ * Forget the key and wipe the secrets from memory; they stay encrypted in the vault
+ */
+export function lockVault(): void {
+  if (useVaultStore.getState().mode !== "encrypted") {
+    return;
+  }
+  // Drop the key first so the wiped secrets are not written back into the vault
+  useVaultStore.getState().setKey(null);
+  clearSecrets();
+}
+
+/**
+ * Delete the vault and its secrets, e.g. after a forgotten passphrase
+ */
+export function resetVault(): void {
+  const { setKey, setVault, setMode } = useVaultStore.getState();
+  setKey(null);
+  setVault(null);
+  setMode("plain");
+  clearSecrets();
+}
+
+/**
+ * Keep the vault in sync with the stores and lock it after inactivity.
+ * Returns a cleanup function.
+ */
+export function startSecretVault(): () => void {
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
+  const scheduleSave = () => {
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      saveVault().catch((error) => console.error("[Vault] Failed to save secrets:", error));
+    }, SAVE_DEBOUNCE_MS);
+  };
+
+  const unsubscribeLLM = useLLMStore.subscribe(scheduleSave);
+  const unsubscribeUtcp = useUtcpConfigStore.subscribe(scheduleSave);
+  const unsubscribeVault = useVaultStore.subscribe((state, previous) => {
+    if (state.protectedVariables !== previous.protectedVariables) {
+      // Newly protected variables must leave localStorage, unprotected ones return to it
+      persistStores();
+      scheduleSave();
+    }
+  });
+
+  let lastActivity = Date.now();
+  const onActivity = () => {
+    lastActivity = Date.now();
+  };
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+
+  const autoLockTimer = setInterval(() => {
+    const { mode, key, autoLockMinutes } = useVaultStore.getState();
+    if (mode === "encrypted" && key && autoLockMinutes > 0 && Date.now() - lastActivity > autoLockMinutes * 60_000) {
+      console.log("[Vault] Locked after inactivity");
+      lockVault();
+    }
+  }, AUTO_LOCK_CHECK_MS);
+
+  return () => {
+    clearTimeout(saveTimer);
+    clearInterval(autoLockTimer);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+    unsubscribeLLM();
+    unsubscribeUtcp();
+    unsubscribeVault();
+  };
+}
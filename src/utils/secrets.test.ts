@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { LLMConfig, LLMProfile } from "@/types/llm.types";
+import {
+  applyLLMSecrets,
+  applyVariableSecrets,
+  collectLLMSecrets,
+  collectVariableSecrets,
+  stripLLMSecrets,
+  stripVariableSecrets,
+} from "./secrets";
+
+const config: LLMConfig = {
+  provider: "openai",
+  model: "gpt-4o",
+  apiKey: "sk-main",
+  fallbacks: [{ provider: "anthropic", model: "claude-sonnet-4-5", apiKey: "sk-ant" }],
+};
+const profiles: LLMProfile[] = [{ id: "p1", name: "Work", config: { provider: "google", model: "gemini-2.5-pro", apiKey: "g-key" } }];
+
+describe("LLM secrets", () => {
+  it("collects the keys by where they belong", () => {
+    expect(collectLLMSecrets(config, profiles)).toEqual({
+      "llm.apiKey": "sk-main",
+      "llm.fallback.0": "sk-ant",
+      "profile.p1.apiKey": "g-key",
+    });
+  });
+
+  it("restores stripped keys from the collected ones", () => {
+    const secrets = collectLLMSecrets(config, profiles);
+    const stripped = stripLLMSecrets(config, profiles);
+    expect(collectLLMSecrets(stripped.config, stripped.profiles)).toEqual({});
+
+    const restored = applyLLMSecrets(stripped.config, stripped.profiles, secrets);
+    expect(restored.config).toEqual(config);
+    expect(restored.profiles).toEqual(profiles);
+  });
+
+  it("keeps keys entered while the vault was locked", () => {
+    const stripped = stripLLMSecrets(config, profiles);
+    const entered = { ...stripped.config, apiKey: "sk-new" };
+    const restored = applyLLMSecrets(entered, stripped.profiles, collectLLMSecrets(config, profiles));
+    expect(restored.config.apiKey).toBe("sk-new");
+    expect(restored.config.fallbacks?.[0].apiKey).toBe("sk-ant");
+  });
+});
+
+describe("variable secrets", () => {
+  const variables = { API_TOKEN: "secret", REGION: "eu" };
+
+  it("handles only the protected variables and keeps their names when stripped", () => {
+    expect(collectVariableSecrets(variables, ["API_TOKEN"])).toEqual({ "variable.API_TOKEN": "secret" });
+    expect(stripVariableSecrets(variables, ["API_TOKEN"])).toEqual({ API_TOKEN: "", REGION: "eu" });
+  });
+
+  it("restores blanked variables but keeps values entered while locked", () => {
+    const secrets = { "variable.API_TOKEN": "secret", "variable.OTHER": "x" };
+    expect(applyVariableSecrets({ API_TOKEN: "", REGION: "eu" }, ["API_TOKEN", "OTHER"], secrets)).toEqual(variables);
+    expect(applyVariableSecrets({ API_TOKEN: "typed" }, ["API_TOKEN"], secrets)).toEqual({ API_TOKEN: "typed" });
+  });
+});
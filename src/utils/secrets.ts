@@ -0,0 +1,92 @@
+/**
+ * Secret Fields
+ *
+ * Finds the secrets in the persisted settings (LLM API keys in the current
+ * config, fallbacks and profiles, and protected UTCP variables) so they can be
+ * stripped before persisting, or collected into and restored from the vault.
+ */
+
+import type { LLMConfig, LLMProfile } from "@/types/llm.types";
+
+/**
+ * Secret values keyed by where they belong, e.g. "llm.apiKey", "profile.<id>.fallback.0" or "variable.<name>"
+ */
+export type SecretMap = Record<string, string>;
+
+type SecretMapper = (path: string, value: string | undefined) => string | undefined;
+
+function mapConfigSecrets(config: LLMConfig, prefix: string, mapper: SecretMapper): LLMConfig {
+  return {
+    ...config,
+    apiKey: mapper(`${prefix}.apiKey`, config.apiKey),
+    fallbacks: config.fallbacks?.map((fallback, index) => ({
+      ...fallback,
+      apiKey: mapper(`${prefix}.fallback.${index}`, fallback.apiKey),
+    })),
+  };
+}
+
+function mapLLMSecrets(config: LLMConfig, profiles: LLMProfile[], mapper: SecretMapper) {
+  return {
+    config: mapConfigSecrets(config, "llm", mapper),
+    profiles: profiles.map(profile => ({ ...profile, config: mapConfigSecrets(profile.config, `profile.${profile.id}`, mapper) })),
+  };
+}
+
+export function collectLLMSecrets(config: LLMConfig, profiles: LLMProfile[]): SecretMap {
+  const secrets: SecretMap = {};
+  mapLLMSecrets(config, profiles, (path, value) => {
+    if (value) {
+      secrets[path] = value;
+    }
+    return value;
+  });
+  return secrets;
+}
+
+/**
+ * Fill in the API keys from the vault. Keys entered while it was locked win
+ * over the stored ones, and keys missing from it are left as they are.
+ */
+export function applyLLMSecrets(config: LLMConfig, profiles: LLMProfile[], secrets: SecretMap) {
+  return mapLLMSecrets(config, profiles, (path, value) => value || secrets[path]);
+}
+
+export function stripLLMSecrets(config: LLMConfig, profiles: LLMProfile[]) {
+  return mapLLMSecrets(config, profiles, () => undefined);
+}
+
+export function collectVariableSecrets(variables: Record<string, string>, names: string[]): SecretMap {
+  const secrets: SecretMap = {};
+  for (const name of names) {
+    if (variables[name]) {
+      secrets[`variable.${name}`] = variables[name];
+    }
+  }
+  return secrets;
+}
+
+export function applyVariableSecrets(variables: Record<string, string>, names: string[], secrets: SecretMap): Record<string, string> {
+  const result = { ...variables };
+  for (const name of names) {
+    const value = secrets[`variable.${name}`];
+    // A value entered while the vault was locked wins over the stored one
+    if (value !== undefined && name in result && !result[name]) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Blank the protected variables, keeping their names so the UTCP config stays complete
+ */
+export function stripVariableSecrets(variables: Record<string, string>, names: string[]): Record<string, string> {
+  const result = { ...variables };
+  for (const name of names) {
+    if (name in result) {
+      result[name] = "";
+    }
+  }
+  return result;
+}
@@ -0,0 +1,103 @@
+/**
+ * Token Counting Utilities
+ *
+ * Pluggable per-provider token counters that run fully in the browser.
+ * OpenAI models are counted with the real tiktoken BPE ranks (lazy-loaded as a
+ * separate chunk). Anthropic and Gemini do not publish their tokenizers, so they
+ * use the same BPE scaled by a calibrated factor.
+ */
+
+import { Tiktoken } from "js-tiktoken/lite";
+import type { LLMProvider } from "@/types/llm.types";
+
+export interface TokenCounter {
+  /** Tokenizer description, for logging */
+  name: string;
+  count: (text: string) => number;
+  /** Resolves once the BPE ranks are loaded; until then count() approximates from characters */
+  ready: Promise<void>;
+}
+
+type EncodingName = "o200k_base" | "cl100k_base";
+
+interface TokenizerProfile {
+  encoding: EncodingName;
+  /** Multiplier applied to the BPE count for providers with unpublished tokenizers */
+  scale: number;
+  /** Characters per token used before the BPE ranks are available */
+  charsPerToken: number;
+}
+
+// Encoding very large strings with a JS BPE blocks the UI; approximate beyond this size
+const MAX_EXACT_COUNT_CHARS = 400_000;
+
+const encoderCache = new Map<EncodingName, Promise<Tiktoken>>();
+
+function loadEncoder(encoding: EncodingName): Promise<Tiktoken> {
+  let encoder = encoderCache.get(encoding);
+  if (!encoder) {
+    const ranks = encoding === "o200k_base"
+      ? import("js-tiktoken/ranks/o200k_base")
+      : import("js-tiktoken/ranks/cl100k_base");
+    encoder = ranks.then(module => new Tiktoken(module.default));
+    encoderCache.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+function getTokenizerProfile(provider: LLMProvider, model: string): TokenizerProfile {
+  switch (provider) {
+    case "openai":
+      // gpt-4o, gpt-4.1, gpt-5 and the o-series use o200k; older GPT-4/3.5 models use cl100k
+      return /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model)
+        ? { encoding: "o200k_base", scale: 1, charsPerToken: 4 }
+        : { encoding: "cl100k_base", scale: 1, charsPerToken: 4 };
+    case "anthropic":
+      // Claude's tokenizer yields noticeably more tokens than cl100k for the same text
+      return { encoding: "cl100k_base", scale: 1.2, charsPerToken: 3.5 };
+    case "google":
+      return { encoding: "o200k_base", scale: 1.05, charsPerToken: 4 };
+    default:
+      return { encoding: "cl100k_base", scale: 1.1, charsPerToken: 3.5 };
+  }
+}
+
+/**
+ * Create a token counter for the given provider and model
+ */
+export function createTokenCounter(provider: LLMProvider, model: string): TokenCounter {
+  const profile = getTokenizerProfile(provider, model);
+  let encoder: Tiktoken | null = null;
+
+  const ready = loadEncoder(profile.encoding)
+    .then((loaded) => {
+      encoder = loaded;
+    })
+    .catch((error) => {
+      console.warn(`[TokenCounter] Could not load ${profile.encoding}, using character approximation:`, error);
+    });
+
+  return {
+    name: profile.scale === 1 ? profile.encoding : `${profile.encoding} ×${profile.scale}`,
+    count: (text) => {
+      if (!text) {
+        return 0;
+      }
+      if (!encoder || text.length > MAX_EXACT_COUNT_CHARS) {
+        return Math.ceil(text.length / profile.charsPerToken);
+      }
+      // Treat special-token markers like "<|endoftext|>" as plain text
+      return Math.ceil(encoder.encode(text, [], []).length * profile.scale);
+    },
+    ready,
+  };
+}
+
+/**
+ * Character-based approximation (1 token ≈ 4 characters), used when no tokenizer is configured
+ */
+export const approximateTokenCounter: TokenCounter = {
+  name: "chars/4",
+  count: (text) => Math.floor(text.length / 4),
+  ready: Promise.resolve(),
+};
@@ -0,0 +1,63 @@
+/**
+ * Tool Conversion Utilities
+ *
+ * Converts UTCP Tool definitions into provider-native function/tool definitions
+ * (OpenAI format, which LangChain's bindTools translates for Anthropic and Gemini)
+ * and maps the names in returned tool calls back to UTCP tool names.
+ */
+
+import type { Tool } from "@utcp/sdk";
+import type { ToolDefinition } from "@langchain/core/language_models/base";
+
+// OpenAI and Anthropic only accept [a-zA-Z0-9_-]{1,64} as function names,
+// while UTCP tool names are namespaced with dots ("manual.tool_name")
+const MAX_NATIVE_NAME_LENGTH = 64;
+
+export interface NativeToolSet {
+  definitions: ToolDefinition[];
+  /** Maps provider-native function names back to UTCP tool names */
+  nameMap: Map<string, string>;
+}
+
+/**
+ * Convert a UTCP tool name into a name accepted by all providers
+ */
+export function toNativeToolName(toolName: string): string {
+  const sanitized = toolName.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return sanitized.substring(0, MAX_NATIVE_NAME_LENGTH) || "tool";
+}
+
+/**
+ * Convert UTCP tools into provider-native tool definitions
+ */
+export function utcpToolsToNativeTools(tools: Tool[]): NativeToolSet {
+  const definitions: ToolDefinition[] = [];
+  const nameMap = new Map<string, string>();
+
+  for (const tool of tools) {
+    let nativeName = toNativeToolName(tool.name);
+
+    // Disambiguate names that collide after sanitizing
+    let suffix = 2;
+    while (nameMap.has(nativeName)) {
+      const suffixText = `_${suffix++}`;
+      nativeName = toNativeToolName(tool.name).substring(0, MAX_NATIVE_NAME_LENGTH - suffixText.length) + suffixText;
+    }
+    nameMap.set(nativeName, tool.name);
+
+    const parameters = tool.inputs && Object.keys(tool.inputs).length > 0
+      ? { type: "object", properties: {}, ...tool.inputs }
+      : { type: "object", properties: {} };
+
+    definitions.push({
+      type: "function",
+      function: {
+        name: nativeName,
+        description: tool.description || tool.name,
+        parameters: parameters as Record<string, unknown>,
+      },
+    });
+  }
+
+  return { definitions, nameMap };
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -17,6 +18,9 @@ export default defineConfig({
     // Prevent 'global is not defined' errors
     global: 'globalThis',
   },
+  test: {
+    setupFiles: ['./src/test/setup.ts'],
+  },
   build: {
     outDir: 'dist',
     sourcemap: true,